@@ -0,0 +1,63 @@
+import { toAppError } from "~/errors";
+import { logger } from "~/logger";
+
+/**
+ * Helpers shared by the JSON API resource routes.
+ *
+ * @module api
+ */
+
+/**
+ * Creates a JSON error response.
+ *
+ * @param {number} status - The HTTP status code.
+ * @param {string} error - The error message.
+ * @param {HeadersInit} headers - Response headers, e.g. Supabase cookies.
+ * @param {Object} extra - Additional fields for the body, e.g. field errors.
+ * @returns {Response} The JSON response.
+ */
+export const jsonError = (
+	status: number,
+	error: string,
+	headers?: HeadersInit,
+	extra?: Record<string, unknown>,
+) => Response.json({ error, ...extra }, { status, headers });
+
+/**
+ * Reads a JSON object from the request body.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<Record<string, unknown>>} The parsed body.
+ * @throws {Response} A 400 response if the body is not a JSON object.
+ */
+export const readJsonBody = async (request: Request) => {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		throw jsonError(400, "Request body must be valid JSON");
+	}
+
+	if (!body || typeof body !== "object" || Array.isArray(body)) {
+		throw jsonError(400, "Request body must be a JSON object");
+	}
+
+	return body as Record<string, unknown>;
+};
+
+/**
+ * Creates a JSON error response for an error returned by Supabase, with the
+ * status and message from `toAppError`. The original error is logged.
+ *
+ * @param {unknown} error - The error returned by Supabase.
+ * @param {HeadersInit} headers - Response headers, e.g. Supabase cookies.
+ * @returns {Response} The JSON response.
+ */
+export const jsonAppError = (error: unknown, headers?: HeadersInit) => {
+	const { status, message } = toAppError(error);
+	(status >= 500 ? logger.error : logger.warn)("API request failed", {
+		status,
+		error,
+	});
+	return jsonError(status, message, headers);
+};
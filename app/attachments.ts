@@ -0,0 +1,260 @@
+import type { Tables, TypedSupabaseClient } from "~/database";
+import { toAppError } from "~/errors";
+
+/**
+ * File attachments for items in the CRUD module.
+ *
+ * Files are stored in a private Storage bucket under
+ * `<owner id>/<item id>/`, and each one has a row in the
+ * `item_attachments` table so a page of items can list its attachments in
+ * one query. Downloads go through short-lived signed URLs.
+ *
+ * @module attachments
+ */
+
+/**
+ * Storage bucket that holds item attachments.
+ */
+export const ATTACHMENT_BUCKET = "attachments";
+
+/**
+ * Columns selected whenever attachments are read.
+ */
+export const ATTACHMENT_COLUMNS =
+	"id, created_at, item_id, user_id, name, path, content_type, size";
+
+/**
+ * Largest attachment accepted, in bytes.
+ */
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Most attachments accepted in a single submission.
+ */
+export const ATTACHMENT_MAX_FILES = 5;
+
+/**
+ * File types accepted as attachments, in the format of the `accept`
+ * attribute.
+ */
+export const ATTACHMENT_ACCEPT = "image/*,application/pdf";
+
+/**
+ * How long signed download URLs stay valid, in seconds.
+ */
+const SIGNED_URL_EXPIRES_IN = 60 * 60;
+
+/**
+ * An attachment row as stored in the `item_attachments` table.
+ */
+export type ItemAttachment = Tables<"item_attachments">;
+
+/**
+ * An attachment with a signed download URL.
+ */
+export type ItemAttachmentLink = ItemAttachment & { url: string | null };
+
+/**
+ * Reads the uploaded attachments from a submission, skipping empty file
+ * inputs.
+ *
+ * @param {FormData} formData - The submitted form data.
+ * @returns {File[]} The uploaded files.
+ */
+export const getAttachmentFiles = (formData: FormData) =>
+	formData
+		.getAll("attachments")
+		.filter((file): file is File => file instanceof File && file.size > 0);
+
+/**
+ * Validates uploaded attachments.
+ *
+ * @param {File[]} files - The uploaded files.
+ * @returns {string | null} The error message, or null if the files are valid.
+ */
+export const validateAttachments = (files: File[]) => {
+	if (files.length > ATTACHMENT_MAX_FILES) {
+		return `Attach at most ${ATTACHMENT_MAX_FILES} files at a time`;
+	}
+
+	for (const file of files) {
+		if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+			return `${file.name} must be an image or a PDF`;
+		}
+		if (file.size > ATTACHMENT_MAX_SIZE) {
+			return `${file.name} must be at most 10 MB`;
+		}
+	}
+
+	return null;
+};
+
+/**
+ * Uploads attachments for an item and records them.
+ *
+ * Files that were uploaded before a failure are removed again so storage
+ * and the table stay in sync.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string} userId - The id of the item's owner.
+ * @param {number} itemId - The id of the item.
+ * @param {File[]} files - The validated files.
+ * @returns {Promise<string | null>} The error message, if the files couldn't be stored.
+ */
+export const uploadAttachments = async (
+	client: TypedSupabaseClient,
+	userId: string,
+	itemId: number,
+	files: File[],
+) => {
+	const rows = [];
+
+	for (const file of files) {
+		// Keep the original name for display but not in the path
+		const path = `${userId}/${itemId}/${crypto.randomUUID()}`;
+		const { error } = await client.storage
+			.from(ATTACHMENT_BUCKET)
+			.upload(path, file, { contentType: file.type });
+
+		if (error) {
+			await removeStoredFiles(
+				client,
+				rows.map((row) => row.path),
+			);
+			return toAppError(error).message;
+		}
+
+		rows.push({
+			item_id: itemId,
+			user_id: userId,
+			name: file.name,
+			path,
+			content_type: file.type,
+			size: file.size,
+		});
+	}
+
+	if (rows.length === 0) {
+		return null;
+	}
+
+	const { error } = await client.from("item_attachments").insert(rows);
+	if (error) {
+		await removeStoredFiles(
+			client,
+			rows.map((row) => row.path),
+		);
+		return toAppError(error).message;
+	}
+
+	return null;
+};
+
+/**
+ * Lists the attachments of some items with signed download URLs.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {number[]} itemIds - The ids of the items.
+ * @returns {Promise<Record<number, ItemAttachmentLink[]>>} The attachments keyed by item id, oldest first.
+ * @throws {PostgrestError | StorageError} If the attachments or their URLs can't be read.
+ */
+export const listAttachments = async (
+	client: TypedSupabaseClient,
+	itemIds: number[],
+) => {
+	const byItem: Record<number, ItemAttachmentLink[]> = {};
+	if (itemIds.length === 0) {
+		return byItem;
+	}
+
+	const { data: attachments, error } = await client
+		.from("item_attachments")
+		.select(ATTACHMENT_COLUMNS)
+		.in("item_id", itemIds)
+		.order("created_at", { ascending: true });
+
+	if (error) {
+		throw error;
+	}
+	if (!attachments?.length) {
+		return byItem;
+	}
+
+	const { data: signed, error: signError } = await client.storage
+		.from(ATTACHMENT_BUCKET)
+		.createSignedUrls(
+			attachments.map((attachment) => attachment.path),
+			SIGNED_URL_EXPIRES_IN,
+		);
+
+	if (signError) {
+		throw signError;
+	}
+
+	for (const attachment of attachments) {
+		const url =
+			signed?.find((entry) => entry.path === attachment.path)?.signedUrl ??
+			null;
+		(byItem[attachment.item_id] ??= []).push({ ...attachment, url });
+	}
+
+	return byItem;
+};
+
+/**
+ * Removes attachments from storage and the table.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {Object} filter - Which attachments to remove: all of some items, or one by id.
+ * @returns {Promise<AppError | null>} The translated error, if the attachments couldn't be removed.
+ */
+export const removeAttachments = async (
+	client: TypedSupabaseClient,
+	filter: { itemIds: number[] } | { id: number },
+) => {
+	const query = client.from("item_attachments").select("id, path");
+	const { data: attachments, error } = await ("id" in filter
+		? query.eq("id", filter.id)
+		: query.in("item_id", filter.itemIds));
+
+	if (error) {
+		return toAppError(error);
+	}
+	if (!attachments?.length) {
+		return null;
+	}
+
+	const storageError = await removeStoredFiles(
+		client,
+		attachments.map((attachment) => attachment.path),
+	);
+	if (storageError) {
+		return storageError;
+	}
+
+	const { error: deleteError } = await client
+		.from("item_attachments")
+		.delete()
+		.in(
+			"id",
+			attachments.map((attachment) => attachment.id),
+		);
+
+	return deleteError ? toAppError(deleteError) : null;
+};
+
+/**
+ * Removes files from the attachments bucket.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string[]} paths - The storage paths.
+ * @returns {Promise<AppError | null>} The translated error, if the files couldn't be removed.
+ */
+const removeStoredFiles = async (client: TypedSupabaseClient, paths: string[]) => {
+	if (paths.length === 0) {
+		return null;
+	}
+
+	const { error } = await client.storage.from(ATTACHMENT_BUCKET).remove(paths);
+	return error ? toAppError(error) : null;
+};
@@ -0,0 +1,202 @@
+import { redirect } from "react-router";
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { getBearerClient, getServerClient } from "~/server";
+import { isSameOrigin } from "~/csrf";
+import { setLogUser } from "~/logger";
+import { getConfig, type OAuthProvider } from "~/config";
+import { errorData, toAppError } from "~/errors";
+
+/**
+ * Default location to send users to after they sign in.
+ */
+export const DEFAULT_REDIRECT = "/home";
+
+/**
+ * Minimum password length, matching Supabase's default.
+ */
+export const PASSWORD_MIN_LENGTH = 6;
+
+/**
+ * Returns a safe, same-origin path to redirect to after authentication.
+ *
+ * Anything that isn't a relative path (absolute URLs, protocol-relative
+ * `//host` values, missing values) falls back to the default redirect so the
+ * `redirectTo` parameter can't be used as an open redirect.
+ *
+ * @param {FormDataEntryValue | string | null | undefined} to - The requested redirect target.
+ * @param {string} defaultRedirect - Path to use when the target is not safe.
+ * @returns {string} A path beginning with a single "/".
+ */
+export const safeRedirect = (
+	to: FormDataEntryValue | string | null | undefined,
+	defaultRedirect: string = DEFAULT_REDIRECT,
+) => {
+	if (!to || typeof to !== "string") {
+		return defaultRedirect;
+	}
+
+	if (!to.startsWith("/") || to.startsWith("//") || to.startsWith("/\\")) {
+		return defaultRedirect;
+	}
+
+	return to;
+};
+
+/**
+ * Builds the login URL for a request, remembering where the user was going.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {string} The login path with a `redirectTo` search parameter.
+ */
+export const getLoginRedirect = (request: Request) => {
+	const url = new URL(request.url);
+	const searchParams = new URLSearchParams([
+		["redirectTo", `${url.pathname}${url.search}`],
+	]);
+	return `/login?${searchParams}`;
+};
+
+/**
+ * Requires a signed-in user for the current request.
+ *
+ * Use this in the loader and action of every private route. When there is no
+ * valid session the user is redirected to `/login` with a `redirectTo`
+ * parameter pointing back at the requested page. Other failures, such as
+ * Supabase being unreachable, are thrown as error responses instead of
+ * signing the user out.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<{ user: User, client: TypedSupabaseClient, headers: Headers }>} The authenticated user along with the server client and response headers.
+ * @throws {Response} A redirect to the login page, or the translated error.
+ */
+export const requireUser = async (request: Request) => {
+	const sbServerClient = getServerClient(request);
+	const userResponse = await sbServerClient.client.auth.getUser();
+
+	if (
+		userResponse.error &&
+		toAppError(userResponse.error).kind !== "unauthenticated"
+	) {
+		throw errorData(userResponse.error, sbServerClient.headers);
+	}
+
+	if (!userResponse.data.user) {
+		throw redirect(getLoginRedirect(request), {
+			headers: sbServerClient.headers,
+		});
+	}
+
+	setLogUser(userResponse.data.user.id);
+	return { user: userResponse.data.user, ...sbServerClient };
+};
+
+/**
+ * Requires an authenticated user for an API request.
+ *
+ * Accepts either an `Authorization: Bearer <access token>` header or the
+ * session cookies used by the rest of the app. Unauthenticated requests get
+ * a JSON 401 response instead of a redirect. Cookie-authenticated requests
+ * that change data must come from this site's origin, since they can't
+ * carry a CSRF token. Failures other than a missing or expired session get
+ * the translated status and message.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<{ user: User, client: TypedSupabaseClient, headers: Headers }>} The authenticated user along with a Supabase client acting as them and response headers.
+ */
+export const requireApiUser = async (request: Request) => {
+	const authorization = request.headers.get("Authorization");
+	const accessToken = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+	const sbClient = accessToken
+		? getBearerClient(accessToken)
+		: getServerClient(request);
+
+	if (!accessToken && request.method !== "GET" && !isSameOrigin(request)) {
+		throw Response.json(
+			{ error: "Cross-origin request blocked" },
+			{ status: 403 },
+		);
+	}
+
+	const userResponse = await sbClient.client.auth.getUser(accessToken);
+	const authError = userResponse.error && toAppError(userResponse.error);
+
+	if (authError && authError.kind !== "unauthenticated") {
+		throw Response.json(
+			{ error: authError.message },
+			{ status: authError.status, headers: sbClient.headers },
+		);
+	}
+
+	if (!userResponse.data.user) {
+		sbClient.headers.set("WWW-Authenticate", "Bearer");
+		throw Response.json(
+			{ error: "Authentication required" },
+			{ status: 401, headers: sbClient.headers },
+		);
+	}
+
+	setLogUser(userResponse.data.user.id);
+	return { user: userResponse.data.user, ...sbClient };
+};
+
+/**
+ * Builds the absolute `/auth/callback` URL that Supabase redirects to after
+ * email confirmation, magic link or OAuth sign-in.
+ *
+ * @param {Request} request - The incoming request, used for the origin.
+ * @param {string} next - Path to send the user to once signed in.
+ * @returns {string} The callback URL with a `next` search parameter.
+ */
+export const getAuthCallbackUrl = (request: Request, next: string) => {
+	const url = new URL("/auth/callback", request.url);
+	url.searchParams.set("next", safeRedirect(next));
+	return url.toString();
+};
+
+/**
+ * Button labels of the OAuth providers the app supports.
+ */
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+	github: "GitHub",
+	google: "Google",
+};
+
+/**
+ * Checks whether a value names a supported OAuth provider.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a supported provider.
+ */
+export const isOAuthProvider = (value: unknown): value is OAuthProvider =>
+	typeof value === "string" && Object.hasOwn(OAUTH_PROVIDER_LABELS, value);
+
+/**
+ * Returns the OAuth providers enabled through the comma-separated
+ * `SUPABASE_OAUTH_PROVIDERS` environment variable, e.g. `github,google`.
+ * Unknown names stop the server at startup (see `parseConfig`).
+ *
+ * @returns {OAuthProvider[]} The enabled providers.
+ */
+export const getOAuthProviders = () => getConfig().oauthProviders;
+
+/**
+ * Kinds of one-time token sent in Supabase's email links.
+ */
+const EMAIL_OTP_TYPES: readonly EmailOtpType[] = [
+	"signup",
+	"invite",
+	"magiclink",
+	"recovery",
+	"email_change",
+	"email",
+];
+
+/**
+ * Checks whether a value is a kind of one-time email token, e.g. the
+ * `type` search parameter of an email link.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a known token type.
+ */
+export const isEmailOtpType = (value: unknown): value is EmailOtpType =>
+	EMAIL_OTP_TYPES.some((type) => type === value);
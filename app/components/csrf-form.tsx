@@ -0,0 +1,30 @@
+import { Form, useRouteLoaderData, type FormProps } from "react-router";
+import { CSRF_FIELD } from "~/csrf";
+import type { loader as rootLoader } from "~/root";
+
+/**
+ * Hidden field with the CSRF token issued by the root loader. Add it to
+ * forms that aren't rendered with `CsrfForm`, such as `fetcher.Form`.
+ *
+ * @returns {JSX.Element} The rendered hidden input.
+ */
+export function CsrfInput() {
+	const rootData = useRouteLoaderData<typeof rootLoader>("root");
+
+	return <input type="hidden" name={CSRF_FIELD} value={rootData?.csrf ?? ""} />;
+}
+
+/**
+ * A `Form` that includes the CSRF token, for forms that post to an action.
+ *
+ * @param {FormProps} props - The `Form` props.
+ * @returns {JSX.Element} The rendered form.
+ */
+export function CsrfForm({ children, ...props }: FormProps) {
+	return (
+		<Form {...props}>
+			<CsrfInput />
+			{children}
+		</Form>
+	);
+}
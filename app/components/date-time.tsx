@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Format used on the server and for the first render in the browser, so
+ * both produce the same markup whatever their locale and timezone.
+ */
+const UTC_FORMAT = new Intl.DateTimeFormat("en-US", {
+	dateStyle: "medium",
+	timeStyle: "short",
+	timeZone: "UTC",
+});
+
+/**
+ * A timestamp shown in the browser's locale and timezone.
+ *
+ * The server doesn't know the user's timezone, so it renders the time in
+ * UTC. Once hydrated the component switches to the browser's own format,
+ * which avoids a hydration mismatch.
+ *
+ * @param {Object} props - The component props.
+ * @param {string} props.value - The ISO 8601 timestamp, e.g. a `timestamptz` column.
+ * @returns {JSX.Element} The rendered `time` element.
+ */
+export function DateTime({ value }: { value: string }) {
+	const [formatted, setFormatted] = useState(
+		() => `${UTC_FORMAT.format(new Date(value))} UTC`,
+	);
+
+	useEffect(() => {
+		setFormatted(
+			new Intl.DateTimeFormat(undefined, {
+				dateStyle: "medium",
+				timeStyle: "short",
+			}).format(new Date(value)),
+		);
+	}, [value]);
+
+	return <time dateTime={value}>{formatted}</time>;
+}
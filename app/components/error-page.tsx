@@ -0,0 +1,55 @@
+import { isRouteErrorResponse } from "react-router";
+import { getStatusMessage, toAppError } from "~/errors";
+
+/**
+ * Full-page error message rendered by route error boundaries.
+ *
+ * Thrown responses show the message they were thrown with (see
+ * `errorData`), or the default message for their status, and a 404 shows
+ * `notFoundMessage`. Other errors are translated with `toAppError`, with
+ * the error's own message and stack shown in development.
+ *
+ * @param {Object} props - The component props.
+ * @param {unknown} props.error - The error caught by the boundary.
+ * @param {string} props.notFoundMessage - The message shown for a 404.
+ * @param {React.ReactNode} props.children - Content shown below the message, such as a link back.
+ * @returns {JSX.Element} The rendered error message.
+ */
+export function ErrorPage({
+	error,
+	notFoundMessage = "The requested page could not be found.",
+	children,
+}: {
+	error: unknown;
+	notFoundMessage?: string;
+	children?: React.ReactNode;
+}) {
+	let message = "Oops!";
+	let details = toAppError(error).message;
+	let stack: string | undefined;
+
+	if (isRouteErrorResponse(error)) {
+		message = error.status === 404 ? "404" : "Error";
+		details =
+			error.status === 404
+				? notFoundMessage
+				: (typeof error.data === "string" && error.data) ||
+				  getStatusMessage(error.status);
+	} else if (import.meta.env.DEV && error && error instanceof Error) {
+		details = error.message;
+		stack = error.stack;
+	}
+
+	return (
+		<main className="pt-16 p-4 container mx-auto">
+			<h1>{message}</h1>
+			<p>{details}</p>
+			{children}
+			{stack && (
+				<pre className="w-full p-4 overflow-x-auto">
+					<code>{stack}</code>
+				</pre>
+			)}
+		</main>
+	);
+}
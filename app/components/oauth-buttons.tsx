@@ -0,0 +1,46 @@
+import { OAUTH_PROVIDER_LABELS } from "~/auth";
+import type { OAuthProvider } from "~/config";
+import { CsrfForm } from "~/components/csrf-form";
+
+/**
+ * Sign-in buttons for the enabled OAuth providers.
+ *
+ * Each button posts to `/auth/oauth`, which starts the provider sign-in on
+ * the server. Renders nothing when no providers are enabled.
+ *
+ * @param {Object} props - The component props.
+ * @param {OAuthProvider[]} props.providers - The enabled providers, from the loader.
+ * @param {string} props.redirectTo - Path to return to after signing in.
+ * @returns {JSX.Element | null} The rendered buttons.
+ */
+export function OAuthButtons({
+	providers,
+	redirectTo,
+}: {
+	providers: OAuthProvider[];
+	redirectTo: string;
+}) {
+	if (providers.length === 0) {
+		return null;
+	}
+
+	return (
+		<CsrfForm method="post" action="/auth/oauth" className="mt-6">
+			<input type="hidden" name="redirectTo" value={redirectTo} />
+			<div className="flex flex-col gap-2">
+				<p className="text-sm text-center text-gray-500">Or continue with</p>
+				{providers.map((provider) => (
+					<button
+						key={provider}
+						type="submit"
+						name="provider"
+						value={provider}
+						className="border rounded px-2.5 py-1 border-gray-400"
+					>
+						{OAUTH_PROVIDER_LABELS[provider]}
+					</button>
+				))}
+			</div>
+		</CsrfForm>
+	);
+}
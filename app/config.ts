@@ -0,0 +1,211 @@
+import type { LogLevel } from "~/logger";
+
+/**
+ * Environment configuration.
+ *
+ * All environment variables are read and validated here, once, so a missing
+ * or malformed value stops the server at startup (see `entry.server.tsx`)
+ * with a report of every problem, instead of failing on the first request
+ * that needs it. The rest of the app reads the typed values from
+ * `getConfig`, and the browser only ever receives `getPublicConfig`.
+ *
+ * @module config
+ */
+
+/**
+ * The validated server configuration.
+ */
+export type Config = {
+	/** Supabase project URL, from `SUPABASE_URL`. */
+	supabaseUrl: string;
+	/** Supabase anon key, from `SUPABASE_ANON_KEY`. */
+	supabaseAnonKey: string;
+	/** OAuth providers to offer, from the comma-separated `SUPABASE_OAUTH_PROVIDERS`. */
+	oauthProviders: OAuthProvider[];
+	/** Whether a reverse proxy sets the client IP headers, from `TRUST_PROXY`. */
+	trustProxy: boolean;
+	/** Runtime environment, from `NODE_ENV`. */
+	nodeEnv: NodeEnv;
+	/** Minimum level to log, from `LOG_LEVEL`. */
+	logLevel: LogLevel;
+};
+
+/**
+ * The configuration values that are safe to send to the browser.
+ */
+export type PublicConfig = Pick<Config, "supabaseUrl" | "supabaseAnonKey">;
+
+/**
+ * Values accepted for `NODE_ENV`.
+ */
+const NODE_ENVS = ["development", "production", "test"] as const;
+
+/**
+ * Runtime environment of the server.
+ */
+export type NodeEnv = (typeof NODE_ENVS)[number];
+
+/**
+ * Values accepted for `LOG_LEVEL`.
+ */
+const LOG_LEVEL_NAMES: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Values accepted in `SUPABASE_OAUTH_PROVIDERS`. Each one needs a button
+ * label in `OAUTH_PROVIDER_LABELS` (see `auth.ts`).
+ */
+export const OAUTH_PROVIDERS = ["github", "google"] as const;
+
+/**
+ * An OAuth provider the app supports.
+ */
+export type OAuthProvider = (typeof OAUTH_PROVIDERS)[number];
+
+/**
+ * Values accepted for boolean variables such as `TRUST_PROXY`.
+ */
+const BOOLEAN_NAMES = ["true", "false", "1", "0"] as const;
+
+/**
+ * Checks whether a value is an absolute http(s) URL.
+ *
+ * @param {string} value - The value to check.
+ * @returns {boolean} True if the value is an http or https URL.
+ */
+const isHttpUrl = (value: string) => {
+	try {
+		const url = new URL(value);
+		return url.protocol === "http:" || url.protocol === "https:";
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Checks whether a value is one of a list of allowed values.
+ *
+ * @param {readonly T[]} values - The allowed values.
+ * @param {string} value - The value to check.
+ * @returns {boolean} True if the value is allowed.
+ */
+const isOneOf = <T extends string>(
+	values: readonly T[],
+	value: string,
+): value is T => (values as readonly string[]).includes(value);
+
+/**
+ * Validates environment variables and builds the configuration from them.
+ *
+ * @param {Record<string, string | undefined>} env - The environment variables, usually `process.env`.
+ * @returns {Config} The configuration.
+ * @throws {Error} An error listing every missing or invalid variable.
+ */
+export const parseConfig = (
+	env: Record<string, string | undefined>,
+): Config => {
+	const problems: string[] = [];
+	const read = (name: string) => env[name]?.trim() || undefined;
+
+	const supabaseUrl = read("SUPABASE_URL") ?? "";
+	if (!supabaseUrl) {
+		problems.push("SUPABASE_URL is required");
+	} else if (!isHttpUrl(supabaseUrl)) {
+		problems.push(
+			`SUPABASE_URL must be an http(s) URL, e.g. https://<project>.supabase.co (got "${supabaseUrl}")`,
+		);
+	}
+
+	const supabaseAnonKey = read("SUPABASE_ANON_KEY") ?? "";
+	if (!supabaseAnonKey) {
+		problems.push("SUPABASE_ANON_KEY is required");
+	}
+
+	// `react-router-serve` reads `PORT` itself, so it is only checked here
+	const rawPort = read("PORT");
+	const port = Number(rawPort);
+	if (rawPort && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+		problems.push(
+			`PORT must be a whole number between 1 and 65535 (got "${rawPort}")`,
+		);
+	}
+
+	const rawTrustProxy = read("TRUST_PROXY")?.toLowerCase() ?? "false";
+	const trustProxy = rawTrustProxy === "true" || rawTrustProxy === "1";
+	if (!isOneOf(BOOLEAN_NAMES, rawTrustProxy)) {
+		problems.push(`TRUST_PROXY must be true or false (got "${rawTrustProxy}")`);
+	}
+
+	const rawNodeEnv = read("NODE_ENV") ?? "development";
+	const nodeEnv = isOneOf(NODE_ENVS, rawNodeEnv) ? rawNodeEnv : null;
+	if (!nodeEnv) {
+		problems.push(
+			`NODE_ENV must be one of ${NODE_ENVS.join(", ")} (got "${rawNodeEnv}")`,
+		);
+	}
+
+	const rawLogLevel = read("LOG_LEVEL")?.toLowerCase() ?? "info";
+	const logLevel = isOneOf(LOG_LEVEL_NAMES, rawLogLevel) ? rawLogLevel : null;
+	if (!logLevel) {
+		problems.push(
+			`LOG_LEVEL must be one of ${LOG_LEVEL_NAMES.join(
+				", ",
+			)} (got "${rawLogLevel}")`,
+		);
+	}
+
+	const rawOAuthProviders = (read("SUPABASE_OAUTH_PROVIDERS") ?? "")
+		.split(",")
+		.map((provider) => provider.trim().toLowerCase())
+		.filter(Boolean);
+	const oauthProviders = rawOAuthProviders.filter((provider) =>
+		isOneOf(OAUTH_PROVIDERS, provider),
+	);
+	const unknownOAuthProviders = rawOAuthProviders.filter(
+		(provider) => !isOneOf(OAUTH_PROVIDERS, provider),
+	);
+	if (unknownOAuthProviders.length > 0) {
+		problems.push(
+			`SUPABASE_OAUTH_PROVIDERS may only list ${OAUTH_PROVIDERS.join(
+				", ",
+			)} (got "${unknownOAuthProviders.join(", ")}")`,
+		);
+	}
+
+	if (problems.length > 0 || !nodeEnv || !logLevel) {
+		throw new Error(
+			`Invalid environment configuration:\n${problems
+				.map((problem) => `  - ${problem}`)
+				.join("\n")}\nSee .env.example for the supported variables.`,
+		);
+	}
+
+	return {
+		supabaseUrl,
+		supabaseAnonKey,
+		oauthProviders,
+		trustProxy,
+		nodeEnv,
+		logLevel,
+	};
+};
+
+let config: Config | undefined;
+
+/**
+ * Returns the configuration, validating the environment the first time.
+ *
+ * @returns {Config} The configuration.
+ * @throws {Error} An error listing every missing or invalid variable.
+ */
+export const getConfig = () => (config ??= parseConfig(process.env));
+
+/**
+ * Returns the configuration values that may be sent to the browser. Only
+ * values listed here ever leave the server, so never add secrets to it.
+ *
+ * @returns {PublicConfig} The public configuration.
+ */
+export const getPublicConfig = (): PublicConfig => {
+	const { supabaseUrl, supabaseAnonKey } = getConfig();
+	return { supabaseUrl, supabaseAnonKey };
+};
@@ -0,0 +1,124 @@
+/**
+ * Minimal CSV reading and writing (RFC 4180) for item import and export.
+ *
+ * @module csv
+ */
+
+/**
+ * Values that a spreadsheet would treat as a formula, and values starting
+ * with the apostrophe used to guard them so they survive a round trip.
+ */
+const GUARDED_VALUE = /^[=+\-@\t\r']/;
+
+/**
+ * A parsed CSV row with the line of the file it starts on, counting from 1.
+ */
+export type CsvRow = {
+	line: number;
+	fields: string[];
+};
+
+/**
+ * Formats one CSV field, quoting it when needed. Values that a spreadsheet
+ * would treat as a formula are prefixed with an apostrophe.
+ *
+ * @param {unknown} value - The field value.
+ * @returns {string} The formatted field.
+ */
+const formatField = (value: unknown) => {
+	let text = value === null || value === undefined ? "" : String(value);
+
+	if (GUARDED_VALUE.test(text)) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats one CSV row, including the trailing line break.
+ *
+ * @param {unknown[]} values - The field values.
+ * @returns {string} The formatted row.
+ */
+export const toCsvRow = (values: unknown[]) =>
+	`${values.map(formatField).join(",")}\r\n`;
+
+/**
+ * Reads one parsed CSV field, removing the apostrophe that `formatField`
+ * puts before guarded values.
+ *
+ * @param {string} field - The unquoted field.
+ * @returns {string} The field value.
+ */
+const parseField = (field: string) =>
+	field.startsWith("'") && GUARDED_VALUE.test(field.slice(1))
+		? field.slice(1)
+		: field;
+
+/**
+ * Parses CSV text into rows of fields. Quoted fields may contain commas,
+ * escaped quotes and line breaks. Blank lines are skipped, but still
+ * counted in the line numbers of the rows.
+ *
+ * @param {string} text - The CSV text.
+ * @returns {CsvRow[]} The rows.
+ */
+export const parseCsv = (text: string) => {
+	const rows: CsvRow[] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+	let line = 1;
+	let rowLine = 1;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== "") {
+			rows.push({ line: rowLine, fields: row.map(parseField) });
+		}
+		row = [];
+		field = "";
+		rowLine = line;
+	};
+
+	// Skip a byte order mark left by spreadsheet exports
+	const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+				if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) {
+					line++;
+				}
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") {
+				i++;
+			}
+			line++;
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		endRow();
+	}
+
+	return rows;
+};
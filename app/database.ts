@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Types for the app's Supabase database.
+ *
+ * `Database` describes the tables created by the SQL in the README, in the
+ * format produced by `supabase gen types typescript`. Passing it to the
+ * Supabase clients type-checks table names, selected columns, inserts and
+ * updates. Regenerate or update it whenever the schema changes.
+ *
+ * @module database
+ */
+
+/**
+ * A value stored in a `json` or `jsonb` column.
+ */
+export type Json =
+	| string
+	| number
+	| boolean
+	| null
+	| { [key: string]: Json | undefined }
+	| Json[];
+
+/**
+ * The `public` schema of the database.
+ */
+export type Database = {
+	public: {
+		Tables: {
+			items: {
+				Row: {
+					id: number;
+					created_at: string;
+					name: string;
+					description: string;
+					user_id: string;
+					deleted_at: string | null;
+				};
+				Insert: {
+					id?: number;
+					created_at?: string;
+					name: string;
+					description: string;
+					user_id?: string;
+					deleted_at?: string | null;
+				};
+				Update: {
+					id?: number;
+					created_at?: string;
+					name?: string;
+					description?: string;
+					user_id?: string;
+					deleted_at?: string | null;
+				};
+				Relationships: [];
+			};
+			item_revisions: {
+				Row: {
+					id: number;
+					created_at: string;
+					item_id: number;
+					actor_id: string;
+					action: string;
+					before: Json | null;
+					after: Json | null;
+				};
+				Insert: {
+					id?: number;
+					created_at?: string;
+					item_id: number;
+					actor_id?: string;
+					action: string;
+					before?: Json | null;
+					after?: Json | null;
+				};
+				Update: {
+					id?: number;
+					created_at?: string;
+					item_id?: number;
+					actor_id?: string;
+					action?: string;
+					before?: Json | null;
+					after?: Json | null;
+				};
+				Relationships: [];
+			};
+			item_attachments: {
+				Row: {
+					id: number;
+					created_at: string;
+					item_id: number;
+					user_id: string;
+					name: string;
+					path: string;
+					content_type: string;
+					size: number;
+				};
+				Insert: {
+					id?: number;
+					created_at?: string;
+					item_id: number;
+					user_id?: string;
+					name: string;
+					path: string;
+					content_type: string;
+					size: number;
+				};
+				Update: {
+					id?: number;
+					created_at?: string;
+					item_id?: number;
+					user_id?: string;
+					name?: string;
+					path?: string;
+					content_type?: string;
+					size?: number;
+				};
+				Relationships: [
+					{
+						foreignKeyName: "item_attachments_item_id_fkey";
+						columns: ["item_id"];
+						isOneToOne: false;
+						referencedRelation: "items";
+						referencedColumns: ["id"];
+					},
+				];
+			};
+			tags: {
+				Row: {
+					id: number;
+					user_id: string;
+					name: string;
+				};
+				Insert: {
+					id?: number;
+					user_id?: string;
+					name: string;
+				};
+				Update: {
+					id?: number;
+					user_id?: string;
+					name?: string;
+				};
+				Relationships: [];
+			};
+			item_tags: {
+				Row: {
+					item_id: number;
+					tag_id: number;
+				};
+				Insert: {
+					item_id: number;
+					tag_id: number;
+				};
+				Update: {
+					item_id?: number;
+					tag_id?: number;
+				};
+				Relationships: [
+					{
+						foreignKeyName: "item_tags_item_id_fkey";
+						columns: ["item_id"];
+						isOneToOne: false;
+						referencedRelation: "items";
+						referencedColumns: ["id"];
+					},
+					{
+						foreignKeyName: "item_tags_tag_id_fkey";
+						columns: ["tag_id"];
+						isOneToOne: false;
+						referencedRelation: "tags";
+						referencedColumns: ["id"];
+					},
+				];
+			};
+		};
+		Views: {
+			[_ in never]: never;
+		};
+		Functions: {
+			tag_names: {
+				Args: {
+					"": Database["public"]["Tables"]["items"]["Row"];
+				};
+				Returns: string[];
+			};
+		};
+		Enums: {
+			[_ in never]: never;
+		};
+		CompositeTypes: {
+			[_ in never]: never;
+		};
+	};
+};
+
+/**
+ * A row of a table in the `public` schema.
+ */
+export type Tables<T extends keyof Database["public"]["Tables"]> =
+	Database["public"]["Tables"][T]["Row"];
+
+/**
+ * The values accepted when inserting into a table in the `public` schema.
+ */
+export type TablesInsert<T extends keyof Database["public"]["Tables"]> =
+	Database["public"]["Tables"][T]["Insert"];
+
+/**
+ * The values accepted when updating a table in the `public` schema.
+ */
+export type TablesUpdate<T extends keyof Database["public"]["Tables"]> =
+	Database["public"]["Tables"][T]["Update"];
+
+/**
+ * A Supabase client typed with the app's database schema.
+ */
+export type TypedSupabaseClient = SupabaseClient<Database>;
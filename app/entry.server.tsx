@@ -0,0 +1,122 @@
+import { PassThrough } from "node:stream";
+
+import type {
+	AppLoadContext,
+	EntryContext,
+	HandleDataRequestFunction,
+	HandleErrorFunction,
+} from "react-router";
+import { createReadableStreamFromReadable } from "@react-router/node";
+import { ServerRouter } from "react-router";
+import { isbot } from "isbot";
+import type { RenderToPipeableStreamOptions } from "react-dom/server";
+import { renderToPipeableStream } from "react-dom/server";
+import { getConfig } from "~/config";
+import { logger } from "~/logger";
+import { getRequestId, REQUEST_ID_HEADER } from "~/request-log.server";
+
+const ABORT_DELAY = 5_000;
+
+// Validate the environment as soon as the server starts, so a missing or
+// invalid variable stops it with a report instead of failing requests
+getConfig();
+
+/**
+ * Renders a document request, echoing the request id in the response.
+ */
+export default function handleRequest(
+	request: Request,
+	responseStatusCode: number,
+	responseHeaders: Headers,
+	routerContext: EntryContext,
+	loadContext: AppLoadContext,
+) {
+	responseHeaders.set(REQUEST_ID_HEADER, getRequestId(request, loadContext));
+
+	return new Promise((resolve, reject) => {
+		let shellRendered = false;
+		let userAgent = request.headers.get("user-agent");
+
+		// Ensure requests from bots and SPA Mode renders wait for all content to load before responding
+		// https://react.dev/reference/react-dom/server/renderToPipeableStream#waiting-for-all-content-to-load-for-crawlers-and-static-generation
+		let readyOption: keyof RenderToPipeableStreamOptions =
+			(userAgent && isbot(userAgent)) || routerContext.isSpaMode
+				? "onAllReady"
+				: "onShellReady";
+
+		const { pipe, abort } = renderToPipeableStream(
+			<ServerRouter
+				context={routerContext}
+				url={request.url}
+				abortDelay={ABORT_DELAY}
+			/>,
+			{
+				[readyOption]() {
+					shellRendered = true;
+					const body = new PassThrough();
+					const stream = createReadableStreamFromReadable(body);
+
+					responseHeaders.set("Content-Type", "text/html");
+
+					resolve(
+						new Response(stream, {
+							headers: responseHeaders,
+							status: responseStatusCode,
+						}),
+					);
+
+					pipe(body);
+				},
+				onShellError(error: unknown) {
+					reject(error);
+				},
+				onError(error: unknown) {
+					responseStatusCode = 500;
+					// Log streaming rendering errors from inside the shell.  Don't log
+					// errors encountered during initial shell rendering since they'll
+					// reject and get logged in handleDocumentRequest.
+					if (shellRendered) {
+						logger.error("Error rendering document", {
+							requestId: getRequestId(request, loadContext),
+							error,
+						});
+					}
+				},
+			},
+		);
+
+		setTimeout(abort, ABORT_DELAY);
+	});
+}
+
+/**
+ * Echoes the request id in responses to client-side navigations and fetcher
+ * calls.
+ */
+export const handleDataRequest: HandleDataRequestFunction = (
+	response,
+	{ request, context },
+) => {
+	response.headers.set(REQUEST_ID_HEADER, getRequestId(request, context));
+	return response;
+};
+
+/**
+ * Logs errors thrown while handling a request, unless the request was
+ * aborted.
+ */
+export const handleError: HandleErrorFunction = (
+	error,
+	{ request, context },
+) => {
+	if (request.signal.aborted) {
+		return;
+	}
+
+	logger.error("Unhandled error", {
+		requestId: getRequestId(request, context),
+		method: request.method,
+		path: new URL(request.url).pathname,
+		error,
+	});
+};
@@ -0,0 +1,292 @@
+import {
+	isAuthError,
+	isAuthRetryableFetchError,
+	isAuthSessionMissingError,
+} from "@supabase/supabase-js";
+import { data } from "react-router";
+
+/**
+ * Translation of Supabase errors into HTTP statuses and user-facing
+ * messages.
+ *
+ * PostgREST, Auth and Storage each report failures with their own codes and
+ * messages written for developers. `toAppError` maps them to one of a few
+ * kinds, each with a status code and a message that can be shown on the
+ * page, so every loader, action and error boundary reports the same failure
+ * the same way. Log the original error where it is caught; only the
+ * translated message should reach the browser.
+ *
+ * @module errors
+ */
+
+/**
+ * The kinds of failure the app tells users about.
+ */
+export type AppErrorKind =
+	| "unauthenticated"
+	| "forbidden"
+	| "not_found"
+	| "conflict"
+	| "invalid"
+	| "rate_limited"
+	| "unavailable"
+	| "unexpected";
+
+/**
+ * A translated error: its kind, the HTTP status to respond with and the
+ * message to show.
+ */
+export type AppError = {
+	kind: AppErrorKind;
+	status: number;
+	message: string;
+};
+
+/**
+ * Status code and default message of each kind of failure.
+ */
+const APP_ERRORS: Record<AppErrorKind, Omit<AppError, "kind">> = {
+	unauthenticated: {
+		status: 401,
+		message: "Your session has expired. Please sign in again.",
+	},
+	forbidden: {
+		status: 403,
+		message: "You don't have permission to do that.",
+	},
+	not_found: {
+		status: 404,
+		message: "We couldn't find what you were looking for.",
+	},
+	conflict: {
+		status: 409,
+		message: "That conflicts with something that already exists.",
+	},
+	invalid: {
+		status: 400,
+		message: "Some of the submitted values aren't valid.",
+	},
+	rate_limited: {
+		status: 429,
+		message: "Too many requests. Please wait a moment and try again.",
+	},
+	unavailable: {
+		status: 503,
+		message: "We couldn't reach the server. Please try again in a moment.",
+	},
+	unexpected: {
+		status: 500,
+		message: "Something went wrong. Please try again.",
+	},
+};
+
+/**
+ * Kinds of PostgREST and Postgres error codes. See
+ * https://postgrest.org/en/stable/references/errors.html.
+ */
+const POSTGREST_ERROR_KINDS: Record<string, AppErrorKind> = {
+	// Insufficient privilege, including row level security violations
+	"42501": "forbidden",
+	// No rows returned by `.single()`
+	PGRST116: "not_found",
+	// Unique and foreign key violations
+	"23505": "conflict",
+	"23503": "conflict",
+	// Malformed values, missing required values, check violations and
+	// values that are too long
+	"22P02": "invalid",
+	"23502": "invalid",
+	"23514": "invalid",
+	"22001": "invalid",
+	// Expired or invalid JWT
+	PGRST301: "unauthenticated",
+	PGRST302: "unauthenticated",
+	// Statement timeout
+	"57014": "unavailable",
+};
+
+/**
+ * Kinds of Supabase Auth error codes. Codes that aren't listed are mapped
+ * by their HTTP status.
+ */
+const AUTH_ERROR_KINDS: Record<string, AppErrorKind> = {
+	bad_jwt: "unauthenticated",
+	no_authorization: "unauthenticated",
+	session_not_found: "unauthenticated",
+	refresh_token_not_found: "unauthenticated",
+	refresh_token_already_used: "unauthenticated",
+	user_not_found: "unauthenticated",
+	invalid_credentials: "unauthenticated",
+	email_not_confirmed: "forbidden",
+	user_banned: "forbidden",
+	not_admin: "forbidden",
+	signup_disabled: "forbidden",
+	email_exists: "conflict",
+	phone_exists: "conflict",
+	user_already_exists: "conflict",
+	identity_already_exists: "conflict",
+	over_request_rate_limit: "rate_limited",
+	over_email_send_rate_limit: "rate_limited",
+	over_sms_send_rate_limit: "rate_limited",
+};
+
+/**
+ * Messages for Supabase Auth error codes whose own message isn't clear
+ * enough to show as is.
+ */
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+	invalid_credentials: "Invalid email or password.",
+	email_not_confirmed: "Please confirm your email address before signing in.",
+	email_exists: "An account with this email already exists.",
+	user_already_exists: "An account with this email already exists.",
+	user_banned: "This account has been suspended.",
+	signup_disabled: "New accounts can't be created right now.",
+	over_email_send_rate_limit:
+		"Too many emails have been sent. Please wait a while and try again.",
+};
+
+/**
+ * Maps an HTTP status code to a kind of failure.
+ *
+ * @param {number | undefined} status - The status code.
+ * @returns {AppErrorKind} The kind of failure.
+ */
+const getStatusKind = (status: number | undefined): AppErrorKind => {
+	switch (status) {
+		case 400:
+		case 413:
+		case 422:
+			return "invalid";
+		case 401:
+			return "unauthenticated";
+		case 403:
+			return "forbidden";
+		case 404:
+			return "not_found";
+		case 409:
+			return "conflict";
+		case 429:
+			return "rate_limited";
+		case 502:
+		case 503:
+		case 504:
+			return "unavailable";
+		default:
+			return "unexpected";
+	}
+};
+
+/**
+ * Checks whether a value looks like a PostgREST error, which the Supabase
+ * client returns as a plain object.
+ *
+ * @param {unknown} error - The value to check.
+ * @returns {boolean} True if the value has a PostgREST error's fields.
+ */
+const isPostgrestError = (
+	error: unknown,
+): error is { code: string; message: string; details: string } =>
+	!!error &&
+	typeof error === "object" &&
+	"code" in error &&
+	typeof error.code === "string" &&
+	"message" in error &&
+	"details" in error;
+
+/**
+ * Checks whether an error is a failed `fetch`, meaning Supabase couldn't be
+ * reached at all.
+ *
+ * @param {unknown} error - The error to check.
+ * @returns {boolean} True if the request never got a response.
+ */
+const isNetworkError = (error: unknown) =>
+	(error instanceof TypeError && /fetch|network/i.test(error.message)) ||
+	// PostgREST reports fetch failures with an empty code
+	(isPostgrestError(error) &&
+		error.code === "" &&
+		/fetch|network/i.test(error.message));
+
+/**
+ * Builds a translated error of the given kind.
+ *
+ * @param {AppErrorKind} kind - The kind of failure.
+ * @param {string} message - A message to use instead of the kind's default.
+ * @returns {AppError} The translated error.
+ */
+const createAppError = (kind: AppErrorKind, message?: string): AppError => ({
+	kind,
+	...APP_ERRORS[kind],
+	...(message && { message }),
+});
+
+/**
+ * Translates an error returned or thrown by Supabase, or any other error,
+ * into a status code and a message that is safe to show to users.
+ *
+ * Auth errors that describe a problem with what the user entered, such as
+ * a weak password or an expired link, keep Supabase's message since it is
+ * written for users. Everything else gets the message of its code or kind.
+ *
+ * @param {unknown} error - The error.
+ * @returns {AppError} The translated error.
+ */
+export const toAppError = (error: unknown): AppError => {
+	if (isNetworkError(error) || isAuthRetryableFetchError(error)) {
+		return createAppError("unavailable");
+	}
+
+	if (isAuthSessionMissingError(error)) {
+		return createAppError("unauthenticated");
+	}
+
+	if (isAuthError(error)) {
+		const kind =
+			(error.code && AUTH_ERROR_KINDS[error.code]) ||
+			getStatusKind(error.status);
+		return createAppError(
+			kind,
+			(error.code && AUTH_ERROR_MESSAGES[error.code]) ||
+				(kind === "invalid" ? error.message : undefined),
+		);
+	}
+
+	if (isPostgrestError(error)) {
+		return createAppError(POSTGREST_ERROR_KINDS[error.code] ?? "unexpected");
+	}
+
+	// Storage errors and other errors that carry an HTTP status
+	if (
+		error &&
+		typeof error === "object" &&
+		"status" in error &&
+		typeof error.status === "number"
+	) {
+		return createAppError(getStatusKind(error.status));
+	}
+
+	return createAppError("unexpected");
+};
+
+/**
+ * Returns the default message for an HTTP status code, for responses that
+ * didn't come with one.
+ *
+ * @param {number} status - The status code.
+ * @returns {string} The message.
+ */
+export const getStatusMessage = (status: number) =>
+	APP_ERRORS[getStatusKind(status)].message;
+
+/**
+ * Translates an error into a response that a loader can throw to render
+ * the nearest error boundary with the translated status and message.
+ *
+ * @param {unknown} error - The error.
+ * @param {HeadersInit} headers - Response headers, e.g. Supabase cookies.
+ * @returns {DataWithResponseInit<string>} The response to throw.
+ */
+export const errorData = (error: unknown, headers?: HeadersInit) => {
+	const { status, message } = toAppError(error);
+	return data(message, { status, headers });
+};
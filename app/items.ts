@@ -0,0 +1,353 @@
+import { data } from "react-router";
+import { uploadAttachments } from "~/attachments";
+import type { Tables, TypedSupabaseClient } from "~/database";
+import { errorData } from "~/errors";
+import { normalizeTagName, setItemTags } from "~/tags";
+
+/**
+ * Shared schema for items in the CRUD module.
+ *
+ * The loader, action and `Crud` component all use these definitions so that
+ * what is stored, what is validated and what is rendered stay in sync.
+ *
+ * @module items
+ */
+
+/**
+ * Columns selected whenever items are read.
+ */
+export const ITEM_COLUMNS =
+	"id, created_at, name, description, user_id, deleted_at";
+
+/**
+ * Maximum length of an item name.
+ */
+export const ITEM_NAME_MAX_LENGTH = 100;
+
+/**
+ * Maximum length of an item description.
+ */
+export const ITEM_DESCRIPTION_MAX_LENGTH = 1000;
+
+/**
+ * An item row as stored in the `items` table. `deleted_at` is set while the
+ * item is in the trash.
+ */
+export type Item = Tables<"items">;
+
+/**
+ * The user-editable fields of an item.
+ */
+export type ItemFields = Pick<Item, "name" | "description">;
+
+/**
+ * Validation errors keyed by form field.
+ */
+export type ItemFieldErrors = Partial<Record<"id" | keyof ItemFields, string>>;
+
+/**
+ * Result of validating an item submission.
+ */
+export type ItemValidationResult =
+	| { success: true; data: ItemFields }
+	| { success: false; values: ItemFields; fieldErrors: ItemFieldErrors };
+
+/**
+ * Parses an item id from a form value or route parameter.
+ *
+ * @param {FormDataEntryValue | null | undefined} value - The raw value.
+ * @returns {number | null} The id, or null if the value is not a positive integer.
+ */
+export const parseItemId = (value: FormDataEntryValue | null | undefined) => {
+	if (typeof value !== "string" || !/^\d+$/.test(value.trim())) {
+		return null;
+	}
+
+	const id = Number(value);
+	return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Parses a list of item ids, dropping duplicates.
+ *
+ * @param {FormDataEntryValue[]} values - The raw form values.
+ * @returns {number[] | null} The ids, or null if any value is not a valid id.
+ */
+export const parseItemIds = (values: FormDataEntryValue[]) => {
+	const ids = values.map(parseItemId);
+	if (ids.some((id) => id === null)) {
+		return null;
+	}
+	return [...new Set(ids as number[])];
+};
+
+/**
+ * Fetcher key used for submissions that change an existing item, so the
+ * item's row in the list can show the pending edit or delete wherever the
+ * change was submitted from.
+ *
+ * @param {number} id - The id of the item.
+ * @returns {string} The fetcher key.
+ */
+export const itemFetcherKey = (id: number) => `item-${id}`;
+
+/**
+ * Loads one of a user's items for a route that shows it. Items in the trash
+ * are treated as missing unless `includeTrashed` is set.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string} userId - The id of the signed-in user.
+ * @param {string | undefined} rawId - The `:id` route parameter.
+ * @param {Headers} headers - Headers to send with an error response.
+ * @param {Object} options - Options for the lookup.
+ * @param {boolean} options.includeTrashed - Whether items in the trash are found too.
+ * @returns {Promise<Item>} The item.
+ * @throws {Response} A 404 response if the item doesn't exist, is in the trash or belongs to someone else, or the translated error if it couldn't be read.
+ */
+export const requireItem = async (
+	client: TypedSupabaseClient,
+	userId: string,
+	rawId: string | undefined,
+	headers: Headers,
+	{ includeTrashed = false }: { includeTrashed?: boolean } = {},
+) => {
+	const id = parseItemId(rawId);
+	if (id === null) {
+		throw data("Item not found", { status: 404, headers });
+	}
+
+	let query = client
+		.from("items")
+		.select(ITEM_COLUMNS)
+		.eq("id", id)
+		.eq("user_id", userId);
+	if (!includeTrashed) {
+		query = query.is("deleted_at", null);
+	}
+
+	const { data: item, error } = await query.maybeSingle();
+
+	if (error) {
+		throw errorData(error, headers);
+	}
+
+	if (!item) {
+		throw data("Item not found", { status: 404, headers });
+	}
+
+	return item;
+};
+
+/**
+ * Saves the tags and uploads the attachments submitted with an item.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string} userId - The id of the item's owner.
+ * @param {number} itemId - The id of the saved item.
+ * @param {string[]} tags - The validated tag names.
+ * @param {File[]} files - The validated files.
+ * @returns {Promise<string | null>} An error message for the action result, if either failed.
+ */
+export const saveItemTagsAndAttachments = async (
+	client: TypedSupabaseClient,
+	userId: string,
+	itemId: number,
+	tags: string[],
+	files: File[],
+) => {
+	const tagsError = await setItemTags(client, userId, itemId, tags);
+	if (tagsError) {
+		return `The item was saved, but its tags couldn't be updated: ${tagsError}`;
+	}
+
+	const attachmentsError = await uploadAttachments(
+		client,
+		userId,
+		itemId,
+		files,
+	);
+	return attachmentsError
+		? `The item was saved, but its attachments couldn't be uploaded: ${attachmentsError}`
+		: null;
+};
+
+/**
+ * Reads a text field from form data or a parsed JSON body, ignoring files,
+ * non-string and missing values.
+ *
+ * @param {FormData | Record<string, unknown>} input - The submitted form data or JSON body.
+ * @param {string} name - The field name.
+ * @returns {string} The trimmed value, or an empty string.
+ */
+const getText = (input: FormData | Record<string, unknown>, name: string) => {
+	const value = input instanceof FormData ? input.get(name) : input[name];
+	return typeof value === "string" ? value.trim() : "";
+};
+
+/**
+ * Validates a single user-editable item field.
+ *
+ * @param {keyof ItemFields} field - The field name.
+ * @param {string} value - The trimmed value.
+ * @returns {string | null} The error message, or null if the value is valid.
+ */
+export const validateItemField = (field: keyof ItemFields, value: string) => {
+	if (field === "name") {
+		if (!value) {
+			return "Name is required";
+		}
+		if (value.length > ITEM_NAME_MAX_LENGTH) {
+			return `Name must be at most ${ITEM_NAME_MAX_LENGTH} characters`;
+		}
+		return null;
+	}
+
+	if (!value) {
+		return "Description is required";
+	}
+	if (value.length > ITEM_DESCRIPTION_MAX_LENGTH) {
+		return `Description must be at most ${ITEM_DESCRIPTION_MAX_LENGTH} characters`;
+	}
+	return null;
+};
+
+/**
+ * Validates the name and description fields of an item submission.
+ *
+ * @param {FormData | Record<string, unknown>} input - The submitted form data or JSON body.
+ * @returns {ItemValidationResult} The validated fields, or the submitted values with per-field errors.
+ */
+export const validateItem = (
+	input: FormData | Record<string, unknown>,
+): ItemValidationResult => {
+	const values = {
+		name: getText(input, "name"),
+		description: getText(input, "description"),
+	};
+	const fieldErrors: ItemFieldErrors = {};
+
+	for (const field of ["name", "description"] as const) {
+		const error = validateItemField(field, values[field]);
+		if (error) {
+			fieldErrors[field] = error;
+		}
+	}
+
+	if (Object.keys(fieldErrors).length > 0) {
+		return { success: false, values, fieldErrors };
+	}
+
+	return { success: true, data: values };
+};
+
+/**
+ * Page sizes a visitor may choose for the items list. The first is the default.
+ */
+export const ITEM_PAGE_SIZES = [10, 25, 50] as const;
+
+/**
+ * Columns the items list can be sorted by.
+ */
+export const ITEM_SORT_FIELDS = ["created_at", "name"] as const;
+
+/**
+ * A column the items list can be sorted by.
+ */
+export type ItemSortField = (typeof ITEM_SORT_FIELDS)[number];
+
+/**
+ * Search, tag filter, sort and paging options for the items list, read from
+ * the URL. Items must have every tag in `tags`.
+ */
+export type ItemListParams = {
+	q: string;
+	tags: string[];
+	sort: ItemSortField;
+	order: "asc" | "desc";
+	page: number;
+	pageSize: number;
+};
+
+/**
+ * Options used when a search parameter is missing or invalid.
+ */
+export const DEFAULT_ITEM_LIST_PARAMS: ItemListParams = {
+	q: "",
+	tags: [],
+	sort: "created_at",
+	order: "desc",
+	page: 1,
+	pageSize: ITEM_PAGE_SIZES[0],
+};
+
+/**
+ * Reads the items list options from URL search parameters.
+ *
+ * @param {URLSearchParams} searchParams - The request's search parameters.
+ * @returns {ItemListParams} The list options, with defaults for missing or invalid values.
+ */
+export const parseItemListParams = (
+	searchParams: URLSearchParams,
+): ItemListParams => {
+	const sort = searchParams.get("sort");
+	const order = searchParams.get("order");
+	const page = Number(searchParams.get("page"));
+	const pageSize = Number(searchParams.get("pageSize"));
+
+	return {
+		q: (searchParams.get("q") ?? "").trim(),
+		tags: [...new Set(searchParams.getAll("tag").map(normalizeTagName))].filter(
+			Boolean,
+		),
+		sort: ITEM_SORT_FIELDS.includes(sort as ItemSortField)
+			? (sort as ItemSortField)
+			: DEFAULT_ITEM_LIST_PARAMS.sort,
+		order:
+			order === "asc" || order === "desc"
+				? order
+				: DEFAULT_ITEM_LIST_PARAMS.order,
+		page:
+			Number.isSafeInteger(page) && page > 0
+				? page
+				: DEFAULT_ITEM_LIST_PARAMS.page,
+		pageSize: ITEM_PAGE_SIZES.some((size) => size === pageSize)
+			? pageSize
+			: DEFAULT_ITEM_LIST_PARAMS.pageSize,
+	};
+};
+
+/**
+ * Builds URL search parameters for the items list, leaving out defaults so
+ * shared links stay short. Each tag is added as a separate `tag` parameter.
+ *
+ * @param {ItemListParams} params - The list options.
+ * @returns {URLSearchParams} The search parameters.
+ */
+export const toItemSearchParams = (params: ItemListParams) => {
+	const searchParams = new URLSearchParams();
+
+	for (const tag of params.tags) {
+		searchParams.append("tag", tag);
+	}
+
+	for (const key of Object.keys(params) as (keyof ItemListParams)[]) {
+		if (key !== "tags" && params[key] !== DEFAULT_ITEM_LIST_PARAMS[key]) {
+			searchParams.set(key, String(params[key]));
+		}
+	}
+
+	return searchParams;
+};
+
+/**
+ * Builds a PostgREST `or` filter matching the search text in the name or
+ * description. LIKE wildcards in the text are matched literally.
+ *
+ * @param {string} q - The search text.
+ * @returns {string} The filter for `.or()`.
+ */
+export const getItemSearchFilter = (q: string) => {
+	const pattern = `%${q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+	const quoted = `"${pattern.replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+	return `name.ilike.${quoted},description.ilike.${quoted}`;
+};
@@ -0,0 +1,172 @@
+import { getConfig } from "~/config";
+
+/**
+ * Structured logging for the server.
+ *
+ * Every entry is written as a single line of JSON with a timestamp, level
+ * and message. While a loader or action runs, entries also carry the
+ * request id and the signed-in user's id (see `request-log.server`).
+ * Fields whose names look sensitive, such as passwords, tokens, cookies
+ * and emails, are redacted before they are written.
+ *
+ * @module logger
+ */
+
+/**
+ * Severity of a log entry.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Extra fields attached to a log entry.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Request details added to every entry logged while handling a request.
+ */
+export type LogContext = {
+	requestId: string;
+	userId?: string;
+};
+
+/**
+ * A logger that writes entries with a fixed set of fields.
+ */
+export type Logger = {
+	debug: (message: string, fields?: LogFields) => void;
+	info: (message: string, fields?: LogFields) => void;
+	warn: (message: string, fields?: LogFields) => void;
+	error: (message: string, fields?: LogFields) => void;
+	/**
+	 * Creates a logger that adds the given fields to every entry.
+	 */
+	child: (bindings: LogFields) => Logger;
+};
+
+/**
+ * Order of the levels, used to drop entries below `LOG_LEVEL`.
+ */
+const LOG_LEVELS: Record<LogLevel, number> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+};
+
+/**
+ * Field names whose values are never written to the logs.
+ */
+const SENSITIVE_FIELD =
+	/password|passwd|token|secret|authorization|cookie|api[-_]?key|csrf|email/i;
+
+/**
+ * Placeholder written instead of a sensitive value.
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * How deep nested objects are logged before being cut off.
+ */
+const MAX_DEPTH = 5;
+
+let getLogContext: () => LogContext | undefined = () => undefined;
+
+/**
+ * Sets where loggers read the current request's details from.
+ *
+ * @param {() => LogContext | undefined} source - Returns the details of the request being handled, if any.
+ */
+export const setLogContextSource = (source: () => LogContext | undefined) => {
+	getLogContext = source;
+};
+
+/**
+ * Adds the signed-in user's id to the entries logged for the current
+ * request.
+ *
+ * @param {string} userId - The id of the user.
+ */
+export const setLogUser = (userId: string) => {
+	const context = getLogContext();
+	if (context) {
+		context.userId = userId;
+	}
+};
+
+/**
+ * Prepares a value for logging: redacts sensitive fields, expands errors
+ * and cuts off deeply nested objects.
+ *
+ * @param {unknown} value - The value to log.
+ * @param {number} depth - How deeply nested the value is.
+ * @returns {unknown} A value that can be serialized to JSON.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+	if (value instanceof Error) {
+		return {
+			name: value.name,
+			message: value.message,
+			stack: value.stack,
+		};
+	}
+	if (value === null || typeof value !== "object") {
+		return value;
+	}
+	if (depth >= MAX_DEPTH) {
+		return "[Truncated]";
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => redact(entry, depth + 1));
+	}
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, entry]) => [
+			key,
+			SENSITIVE_FIELD.test(key) ? REDACTED : redact(entry, depth + 1),
+		]),
+	);
+};
+
+/**
+ * Creates a logger.
+ *
+ * @param {LogFields} bindings - Fields added to every entry, e.g. the name of a module.
+ * @returns {Logger} The logger.
+ */
+export const createLogger = (bindings: LogFields = {}): Logger => {
+	const write = (level: LogLevel, message: string, fields?: LogFields) => {
+		if (LOG_LEVELS[level] < LOG_LEVELS[getConfig().logLevel]) {
+			return;
+		}
+
+		const entry = JSON.stringify({
+			time: new Date().toISOString(),
+			level,
+			message,
+			...getLogContext(),
+			...(redact({ ...bindings, ...fields }) as LogFields),
+		});
+
+		if (level === "error") {
+			console.error(entry);
+		} else if (level === "warn") {
+			console.warn(entry);
+		} else {
+			console.log(entry);
+		}
+	};
+
+	return {
+		debug: (message, fields) => write("debug", message, fields),
+		info: (message, fields) => write("info", message, fields),
+		warn: (message, fields) => write("warn", message, fields),
+		error: (message, fields) => write("error", message, fields),
+		child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+	};
+};
+
+/**
+ * The application logger.
+ */
+export const logger = createLogger();
@@ -0,0 +1,312 @@
+import { data, type HeadersFunction } from "react-router";
+import { getConfig } from "~/config";
+
+/**
+ * Rate limiting for the authentication actions.
+ *
+ * Attempts are counted per rule and key (such as the client IP or the
+ * submitted email) in fixed windows. The client IP is only known behind a
+ * trusted proxy (`TRUST_PROXY`), so clients can't pick their own IP with a
+ * forged header; otherwise a looser limit shared by all clients stands in
+ * for the per-IP limit. Counters live in memory by default,
+ * which is enough for a single server; deployments with several instances
+ * should pass a shared store to `setRateLimitStore`.
+ *
+ * @module rate-limit
+ */
+
+/**
+ * A counter in a rate limit store.
+ */
+export type RateLimitCounter = {
+	count: number;
+	resetAt: number;
+};
+
+/**
+ * Storage for rate limit counters, e.g. in memory or in Redis.
+ */
+export type RateLimitStore = {
+	/**
+	 * Increments the counter for a key, starting a new window if the
+	 * previous one has expired.
+	 */
+	hit: (key: string, windowMs: number) => Promise<RateLimitCounter>;
+	/**
+	 * Clears the counter for a key.
+	 */
+	reset: (key: string) => Promise<void>;
+};
+
+/**
+ * How many attempts a rule allows per window.
+ */
+export type RateLimitRule = {
+	name: string;
+	limit: number;
+	windowMs: number;
+};
+
+/**
+ * Password sign-in and magic link attempts, per IP address.
+ */
+export const LOGIN_IP_LIMIT: RateLimitRule = {
+	name: "login-ip",
+	limit: 20,
+	windowMs: 15 * 60 * 1000,
+};
+
+/**
+ * Password sign-in and magic link attempts from all clients, used instead
+ * of the per-IP limit when the client IP isn't known.
+ */
+export const LOGIN_GLOBAL_LIMIT: RateLimitRule = {
+	name: "login-global",
+	limit: 200,
+	windowMs: 15 * 60 * 1000,
+};
+
+/**
+ * Password sign-in and magic link attempts, per email. Reaching it locks
+ * the account out of password sign-in until the window ends.
+ */
+export const LOGIN_EMAIL_LIMIT: RateLimitRule = {
+	name: "login-email",
+	limit: 5,
+	windowMs: 15 * 60 * 1000,
+};
+
+/**
+ * Registrations, per IP address.
+ */
+export const REGISTER_IP_LIMIT: RateLimitRule = {
+	name: "register-ip",
+	limit: 5,
+	windowMs: 60 * 60 * 1000,
+};
+
+/**
+ * Registrations from all clients, used instead of the per-IP limit when the
+ * client IP isn't known.
+ */
+export const REGISTER_GLOBAL_LIMIT: RateLimitRule = {
+	name: "register-global",
+	limit: 50,
+	windowMs: 60 * 60 * 1000,
+};
+
+/**
+ * Registrations, per email.
+ */
+export const REGISTER_EMAIL_LIMIT: RateLimitRule = {
+	name: "register-email",
+	limit: 3,
+	windowMs: 60 * 60 * 1000,
+};
+
+/**
+ * Password reset emails, per IP address.
+ */
+export const PASSWORD_RESET_IP_LIMIT: RateLimitRule = {
+	name: "password-reset-ip",
+	limit: 5,
+	windowMs: 15 * 60 * 1000,
+};
+
+/**
+ * Password reset emails to all addresses, used instead of the per-IP limit
+ * when the client IP isn't known.
+ */
+export const PASSWORD_RESET_GLOBAL_LIMIT: RateLimitRule = {
+	name: "password-reset-global",
+	limit: 50,
+	windowMs: 15 * 60 * 1000,
+};
+
+/**
+ * Password reset emails, per email.
+ */
+export const PASSWORD_RESET_EMAIL_LIMIT: RateLimitRule = {
+	name: "password-reset-email",
+	limit: 3,
+	windowMs: 60 * 60 * 1000,
+};
+
+/**
+ * Creates a store that keeps counters in this process's memory.
+ *
+ * @returns {RateLimitStore} The store.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+	const counters = new Map<string, RateLimitCounter>();
+
+	return {
+		async hit(key, windowMs) {
+			const now = Date.now();
+
+			// Drop expired counters now and then so the map can't grow unbounded
+			if (counters.size > 10000) {
+				for (const [other, counter] of counters) {
+					if (counter.resetAt <= now) {
+						counters.delete(other);
+					}
+				}
+			}
+
+			const existing = counters.get(key);
+			const counter =
+				existing && existing.resetAt > now
+					? { ...existing, count: existing.count + 1 }
+					: { count: 1, resetAt: now + windowMs };
+			counters.set(key, counter);
+			return counter;
+		},
+		async reset(key) {
+			counters.delete(key);
+		},
+	};
+};
+
+let store = createMemoryRateLimitStore();
+
+/**
+ * Replaces the store used for rate limit counters.
+ *
+ * @param {RateLimitStore} nextStore - The store to use from now on.
+ */
+export const setRateLimitStore = (nextStore: RateLimitStore) => {
+	store = nextStore;
+};
+
+/**
+ * Reads the client IP address from the headers set by a trusted reverse
+ * proxy. Without `TRUST_PROXY` the headers could come from the client
+ * itself, so they are ignored.
+ *
+ * The proxy is expected to set `X-Real-IP`, or to append the address it
+ * received the request from to `X-Forwarded-For`; earlier entries of
+ * `X-Forwarded-For` were sent by the client and aren't trusted.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {string | null} The IP address, or null if it isn't known.
+ */
+export const getClientIp = (request: Request) => {
+	if (!getConfig().trustProxy) {
+		return null;
+	}
+
+	return (
+		request.headers.get("X-Real-IP")?.trim() ||
+		request.headers.get("X-Forwarded-For")?.split(",").at(-1)?.trim() ||
+		null
+	);
+};
+
+/**
+ * Picks the rule and key that limit the client sending a request: the
+ * per-IP rule when the client IP is known, otherwise the global rule
+ * shared by all clients.
+ *
+ * @param {Request} request - The incoming request.
+ * @param {RateLimitRule} ipRule - The per-IP rule.
+ * @param {RateLimitRule} globalRule - The rule used when the client IP isn't known.
+ * @returns {[RateLimitRule, string]} The rule with the key to count attempts under.
+ */
+export const getClientCheck = (
+	request: Request,
+	ipRule: RateLimitRule,
+	globalRule: RateLimitRule,
+): [rule: RateLimitRule, key: string] => {
+	const ip = getClientIp(request);
+	return ip ? [ipRule, ip] : [globalRule, "all"];
+};
+
+/**
+ * Counts an attempt against each rule and key pair.
+ *
+ * @param {Array<[RateLimitRule, string]>} checks - The rules with the key to count the attempt under, e.g. an IP address or email.
+ * @returns {Promise<number | null>} Seconds until the attempt may be retried if any rule is exceeded, otherwise null.
+ */
+export const consumeRateLimit = async (
+	checks: [rule: RateLimitRule, key: string][],
+) => {
+	let retryAfter: number | null = null;
+
+	for (const [rule, key] of checks) {
+		const counter = await store.hit(
+			`${rule.name}:${key.toLowerCase()}`,
+			rule.windowMs,
+		);
+
+		if (counter.count > rule.limit) {
+			const seconds = Math.max(
+				1,
+				Math.ceil((counter.resetAt - Date.now()) / 1000),
+			);
+			retryAfter = Math.max(retryAfter ?? 0, seconds);
+		}
+	}
+
+	return retryAfter;
+};
+
+/**
+ * Clears the counter for a rule and key, e.g. after a successful sign-in.
+ *
+ * @param {RateLimitRule} rule - The rule.
+ * @param {string} key - The key the attempts were counted under.
+ */
+export const resetRateLimit = async (rule: RateLimitRule, key: string) => {
+	await store.reset(`${rule.name}:${key.toLowerCase()}`);
+};
+
+/**
+ * Builds the message shown when a form is rate limited.
+ *
+ * @param {number} retryAfter - Seconds until the next attempt is allowed.
+ * @returns {string} The message.
+ */
+export const getRateLimitMessage = (retryAfter: number) => {
+	const minutes = Math.ceil(retryAfter / 60);
+	return `Too many attempts. Please try again in ${minutes} minute${
+		minutes === 1 ? "" : "s"
+	}.`;
+};
+
+/**
+ * Creates a 429 response for a rate limited action, with a `Retry-After`
+ * header alongside the given headers.
+ *
+ * @param {T} body - The action result, usually with an error message from `getRateLimitMessage`.
+ * @param {number} retryAfter - Seconds until the next attempt is allowed.
+ * @param {Headers} headers - Other response headers, e.g. Supabase cookies.
+ * @returns {DataWithResponseInit<T>} The action result with a 429 status.
+ */
+export const rateLimited = <T>(
+	body: T,
+	retryAfter: number,
+	headers: Headers,
+) => {
+	headers.set("Retry-After", String(retryAfter));
+	return data<T>(body, { status: 429, headers });
+};
+
+/**
+ * Route `headers` function for rate limited routes. React Router only
+ * copies cookies from action headers to the response, so without it the
+ * `Retry-After` header set by `rateLimited` would be dropped.
+ *
+ * @param {HeadersArgs} args - The headers of the route's loader and action, and of its parent routes.
+ * @returns {Headers} The parent headers, with `Retry-After` when the action was rate limited.
+ */
+export const rateLimitHeaders: HeadersFunction = ({
+	parentHeaders,
+	actionHeaders,
+}) => {
+	const headers = new Headers(parentHeaders);
+	const retryAfter = actionHeaders.get("Retry-After");
+	if (retryAfter) {
+		headers.set("Retry-After", retryAfter);
+	}
+	return headers;
+};
@@ -0,0 +1,57 @@
+import { createBrowserClient } from "@supabase/ssr";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useEffect, useRef } from "react";
+import type { PublicConfig } from "~/config";
+import type { Database } from "~/database";
+import type { Item } from "~/items";
+
+/**
+ * Live changes to items through Supabase Realtime.
+ *
+ * @module realtime
+ */
+
+/**
+ * Subscribes to Postgres changes on the `items` table through Supabase
+ * Realtime. Row level security limits the events to rows the signed-in
+ * user can see.
+ *
+ * @param {Object} env - The Supabase URL and anon key from the loader.
+ * @param {Function} onChange - Called with every insert, update or delete.
+ * @param {number} itemId - Only report changes to this item, if given.
+ */
+export function useItemChanges(
+	env: PublicConfig,
+	onChange: (payload: RealtimePostgresChangesPayload<Item>) => void,
+	itemId?: number,
+) {
+	// Keep the latest callback without resubscribing on every render
+	const onChangeRef = useRef(onChange);
+	onChangeRef.current = onChange;
+
+	useEffect(() => {
+		const supabase = createBrowserClient<Database>(
+			env.supabaseUrl,
+			env.supabaseAnonKey,
+		);
+		// Each subscription needs its own channel, as the page and an item
+		// route can listen at the same time
+		const channel = supabase
+			.channel(itemId ? `item-${itemId}-changes` : "items-changes")
+			.on<Item>(
+				"postgres_changes",
+				{
+					event: "*",
+					schema: "public",
+					table: "items",
+					...(itemId && { filter: `id=eq.${itemId}` }),
+				},
+				(payload) => onChangeRef.current(payload),
+			)
+			.subscribe();
+
+		return () => {
+			supabase.removeChannel(channel);
+		};
+	}, [env.supabaseUrl, env.supabaseAnonKey, itemId]);
+}
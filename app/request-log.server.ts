@@ -0,0 +1,158 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { data } from "react-router";
+import { logger, setLogContextSource, type LogContext } from "~/logger";
+
+/**
+ * Request ids and timing for loaders and actions.
+ *
+ * Each request gets an id, taken from its `X-Request-Id` header when a
+ * proxy already assigned one, that is shared by every loader and action
+ * the request runs and echoed back in the response. Wrapping a loader or
+ * action in `withRequestLog` logs how long it took and makes the id
+ * available to every logger call made while it runs.
+ *
+ * @module request-log
+ */
+
+/**
+ * Header that carries the request id.
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Format accepted for request ids sent by clients and proxies.
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Log details for each request, keyed by its load context, which is the
+ * one object every loader and action of a request shares.
+ */
+const requestContexts = new WeakMap<object, LogContext>();
+
+setLogContextSource(() => storage.getStore());
+
+/**
+ * Returns the log details of a request, assigning it an id the first time.
+ *
+ * @param {Request} request - The incoming request.
+ * @param {unknown} loadContext - The load context of the request.
+ * @returns {LogContext} The request's log details.
+ */
+const getRequestLogContext = (request: Request, loadContext: unknown) => {
+	const key =
+		typeof loadContext === "object" && loadContext !== null
+			? loadContext
+			: request;
+	let context = requestContexts.get(key);
+
+	if (!context) {
+		const incoming = request.headers.get(REQUEST_ID_HEADER);
+		context = {
+			requestId:
+				incoming && REQUEST_ID_PATTERN.test(incoming)
+					? incoming
+					: crypto.randomUUID(),
+		};
+		requestContexts.set(key, context);
+	}
+
+	return context;
+};
+
+/**
+ * Returns the id of a request.
+ *
+ * @param {Request} request - The incoming request.
+ * @param {unknown} loadContext - The load context of the request.
+ * @returns {string} The request id.
+ */
+export const getRequestId = (request: Request, loadContext: unknown) =>
+	getRequestLogContext(request, loadContext).requestId;
+
+/**
+ * Class of the values returned by `data()`, which React Router doesn't
+ * export under a stable name.
+ */
+const DataWithResponseInit = data(null).constructor;
+
+/**
+ * Checks whether a loader or action result was built with `data()`.
+ *
+ * @param {unknown} result - The result.
+ * @returns {boolean} True if the result was returned by `data()`.
+ */
+const isDataResult = (result: unknown): result is ReturnType<typeof data> =>
+	result instanceof DataWithResponseInit;
+
+/**
+ * Reads the status of a loader or action result, whether returned or
+ * thrown.
+ *
+ * @param {unknown} result - The result.
+ * @returns {number | null} The status code, or null if the result isn't a response.
+ */
+const getResultStatus = (result: unknown) => {
+	if (result instanceof Response) {
+		return result.status;
+	}
+	if (isDataResult(result)) {
+		return result.init?.status ?? 200;
+	}
+	return null;
+};
+
+/**
+ * Wraps a loader or action so it is timed and logged, and so the entries
+ * it logs carry the request id and user id.
+ *
+ * @param {string} route - The name of the route, e.g. "crud".
+ * @param {"loader" | "action"} handler - Whether the function is the route's loader or action.
+ * @param {Function} fn - The loader or action.
+ * @returns {Function} The wrapped loader or action.
+ */
+export const withRequestLog =
+	<Args extends { request: Request; context: unknown }, Result>(
+		route: string,
+		handler: "loader" | "action",
+		fn: (args: Args) => Promise<Result>,
+	) =>
+	(args: Args) => {
+		const context = getRequestLogContext(args.request, args.context);
+
+		return storage.run(context, async () => {
+			const startedAt = performance.now();
+			const fields = {
+				route,
+				handler,
+				method: args.request.method,
+				path: new URL(args.request.url).pathname,
+			};
+			const log = (result: unknown, status: number) => {
+				if (result instanceof Response) {
+					result.headers.set(REQUEST_ID_HEADER, context.requestId);
+				}
+
+				(status >= 500 ? logger.error : logger.info)(
+					`${route} ${handler} ${status >= 500 ? "failed" : "completed"}`,
+					{
+						...fields,
+						status,
+						durationMs: Math.round(performance.now() - startedAt),
+					},
+				);
+			};
+
+			try {
+				const result = await fn(args);
+				log(result, getResultStatus(result) ?? 200);
+				return result;
+			} catch (error) {
+				// Errors other than thrown responses are logged by `handleError`
+				log(error, getResultStatus(error) ?? 500);
+				throw error;
+			}
+		});
+	};
@@ -0,0 +1,158 @@
+import type { Json, Tables, TypedSupabaseClient } from "~/database";
+import type { Item, ItemFields } from "~/items";
+
+/**
+ * Revision history for items in the CRUD module.
+ *
+ * Every change made through the `/crud` action is recorded in the
+ * `item_revisions` table with the acting user and the item's fields before
+ * and after the change.
+ *
+ * @module revisions
+ */
+
+/**
+ * Columns selected whenever revisions are read.
+ */
+export const ITEM_REVISION_COLUMNS =
+	"id, created_at, item_id, actor_id, action, before, after";
+
+/**
+ * The kind of change a revision records.
+ */
+export type ItemRevisionAction =
+	| "create"
+	| "update"
+	| "delete"
+	| "restore"
+	| "purge";
+
+/**
+ * Every kind of change a revision can record.
+ */
+const ITEM_REVISION_ACTIONS: readonly ItemRevisionAction[] = [
+	"create",
+	"update",
+	"delete",
+	"restore",
+	"purge",
+];
+
+/**
+ * A revision row as stored in the `item_revisions` table. `before` is null
+ * for creates and `after` is null for deletes and purges.
+ */
+export type ItemRevision = Omit<
+	Tables<"item_revisions">,
+	"action" | "before" | "after"
+> & {
+	action: ItemRevisionAction;
+	before: ItemFields | null;
+	after: ItemFields | null;
+};
+
+/**
+ * A field that differs between the before and after values of a revision.
+ */
+export type ItemFieldChange = {
+	field: keyof ItemFields;
+	before: string | null;
+	after: string | null;
+};
+
+/**
+ * Reads the item fields stored in a revision's `before` or `after` column.
+ *
+ * @param {Json | null} value - The stored value.
+ * @returns {ItemFields | null} The fields, or null if the value doesn't hold them.
+ */
+const parseItemFields = (value: Json | null): ItemFields | null =>
+	value &&
+	typeof value === "object" &&
+	!Array.isArray(value) &&
+	typeof value.name === "string" &&
+	typeof value.description === "string"
+		? { name: value.name, description: value.description }
+		: null;
+
+/**
+ * Reads a row of the `item_revisions` table, whose `action`, `before` and
+ * `after` columns the database doesn't type.
+ *
+ * @param {Tables<"item_revisions">} row - The row.
+ * @returns {ItemRevision | null} The revision, or null if the row has an unknown action.
+ */
+export const parseItemRevision = (
+	row: Tables<"item_revisions">,
+): ItemRevision | null => {
+	const action = ITEM_REVISION_ACTIONS.find((other) => other === row.action);
+	return action
+		? {
+				...row,
+				action,
+				before: parseItemFields(row.before),
+				after: parseItemFields(row.after),
+		  }
+		: null;
+};
+
+/**
+ * Picks the fields tracked by revisions from an item.
+ *
+ * @param {Item | null | undefined} item - The item.
+ * @returns {ItemFields | null} The tracked fields, or null without an item.
+ */
+export const toRevisionFields = (item: Item | null | undefined) =>
+	item ? { name: item.name, description: item.description } : null;
+
+/**
+ * Records revisions for changed items.
+ *
+ * Failures are returned rather than thrown so a change that already went
+ * through isn't reported as failed because its history couldn't be written.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string} actorId - The id of the user who made the change.
+ * @param {ItemRevisionAction} action - The kind of change.
+ * @param {Array<{ itemId: number, before: Item | null, after: Item | null }>} changes - The items before and after the change.
+ * @returns {Promise<PostgrestError | null>} The error, if the revisions couldn't be stored.
+ */
+export const recordItemRevisions = async (
+	client: TypedSupabaseClient,
+	actorId: string,
+	action: ItemRevisionAction,
+	changes: { itemId: number; before: Item | null; after: Item | null }[],
+) => {
+	if (changes.length === 0) {
+		return null;
+	}
+
+	const { error } = await client.from("item_revisions").insert(
+		changes.map(({ itemId, before, after }) => ({
+			item_id: itemId,
+			actor_id: actorId,
+			action,
+			before: toRevisionFields(before),
+			after: toRevisionFields(after),
+		})),
+	);
+
+	return error;
+};
+
+/**
+ * Lists the fields changed by a revision.
+ *
+ * @param {ItemRevision} revision - The revision.
+ * @returns {ItemFieldChange[]} The changed fields, in form order.
+ */
+export const diffItemRevision = (revision: ItemRevision) =>
+	(["name", "description"] as const)
+		.map(
+			(field): ItemFieldChange => ({
+				field,
+				before: revision.before?.[field] ?? null,
+				after: revision.after?.[field] ?? null,
+			}),
+		)
+		.filter((change) => change.before !== change.after);
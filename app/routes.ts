@@ -2,16 +2,41 @@
  * Route configuration for the application.
  * This file defines the routing structure using React Router.
  * It includes the index route and other application routes.
+ * Routes nested under the protected layout require a signed-in user.
+ * The item page and edit form are nested under `/crud`, so they render
+ * inside the CRUD page.
  *
  * @type {RouteConfig[]} - An array of route configurations.
  * @default
  */
-import { type RouteConfig, index, route } from "@react-router/dev/routes";
+import {
+  type RouteConfig,
+  index,
+  layout,
+  route,
+} from "@react-router/dev/routes";
 
 export default [
   index("routes/index.tsx"),
-  route("/home", "routes/home.tsx"),
   route("/login", "routes/login.tsx"),
   route("/register", "routes/register.tsx"),
-  route("/crud", "routes/crud.tsx"),
+  route("/forgot-password", "routes/forgot-password.tsx"),
+  route("/update-password", "routes/update-password.tsx"),
+  route("/auth/callback", "routes/auth.callback.tsx"),
+  route("/auth/confirm", "routes/auth.confirm.tsx"),
+  route("/auth/oauth", "routes/auth.oauth.tsx"),
+  route("/api/items", "routes/api.items.tsx"),
+  route("/api/items/:id", "routes/api.items.$id.tsx"),
+  layout("routes/protected.tsx", [
+    route("/home", "routes/home.tsx"),
+    route("/crud", "routes/crud.tsx", [
+      route(":id", "routes/crud.$id.tsx"),
+      route(":id/edit", "routes/crud.$id.edit.tsx"),
+    ]),
+    route("/crud/export", "routes/crud.export.tsx"),
+    route("/crud/import", "routes/crud.import.tsx"),
+    route("/crud/trash", "routes/crud.trash.tsx"),
+    route("/crud/:id/history", "routes/crud.$id.history.tsx"),
+    route("/profile", "routes/profile.tsx"),
+  ]),
 ] satisfies RouteConfig;
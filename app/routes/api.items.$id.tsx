@@ -0,0 +1,146 @@
+/**
+ * JSON API resource route for a single item.
+ *
+ * `GET`, `PATCH` and `DELETE /api/items/:id` read, update and delete one of
+ * the caller's items. Items owned by someone else or in the trash are
+ * reported as not found. Deleting moves the item to the trash.
+ *
+ * Requests authenticate with the session cookies or an
+ * `Authorization: Bearer <access token>` header.
+ *
+ * @module api.items.$id
+ */
+
+import { Route } from "./+types/api.items.$id";
+import { requireApiUser } from "~/auth";
+import { jsonAppError, jsonError, readJsonBody } from "~/api";
+import { ITEM_COLUMNS, parseItemId, validateItem } from "~/items";
+import { logger } from "~/logger";
+import { recordItemRevisions } from "~/revisions";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Loads one of the caller's items for a request.
+ *
+ * @param {Request} request - The incoming request.
+ * @param {string | undefined} rawId - The `:id` route parameter.
+ * @returns {Promise<{ item: Item, user: User, client: TypedSupabaseClient, headers: Headers }>} The item with the authenticated client.
+ * @throws {Response} A JSON 400, 401 or 404 response.
+ */
+const getOwnedItem = async (request: Request, rawId: string | undefined) => {
+	const sbClient = await requireApiUser(request);
+	const id = parseItemId(rawId);
+
+	if (id === null) {
+		throw jsonError(400, "Invalid item id", sbClient.headers);
+	}
+
+	const { data: item, error } = await sbClient.client
+		.from("items")
+		.select(ITEM_COLUMNS)
+		.eq("id", id)
+		.eq("user_id", sbClient.user.id)
+		.is("deleted_at", null)
+		.maybeSingle();
+
+	if (error) {
+		throw jsonAppError(error, sbClient.headers);
+	}
+
+	if (!item) {
+		throw jsonError(404, "Item not found", sbClient.headers);
+	}
+
+	return { item, ...sbClient };
+};
+
+/**
+ * Loader function to read an item.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request and params.
+ * @returns {Promise<Response>} A JSON response with the item, or a JSON error.
+ */
+async function loaderImpl({ request, params }: Route.LoaderArgs) {
+	const { item, headers } = await getOwnedItem(request, params.id);
+	return Response.json({ item }, { headers });
+}
+
+export const loader = withRequestLog("api.items.$id", "loader", loaderImpl);
+
+/**
+ * Action function to update or delete an item.
+ *
+ * `PATCH` accepts any of `name` and `description`; omitted fields keep
+ * their current values. `DELETE` responds with 204.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request and params.
+ * @returns {Promise<Response>} A JSON response with the updated item, an empty 204, or a JSON error.
+ */
+async function actionImpl({ request, params }: Route.ActionArgs) {
+	if (request.method !== "PATCH" && request.method !== "DELETE") {
+		return jsonError(405, "Method not allowed", {
+			Allow: "GET, PATCH, DELETE",
+		});
+	}
+
+	const { item, user, client, headers } = await getOwnedItem(
+		request,
+		params.id,
+	);
+
+	if (request.method === "DELETE") {
+		const { error } = await client
+			.from("items")
+			.update({ deleted_at: new Date().toISOString() })
+			.eq("id", item.id)
+			.eq("user_id", user.id);
+
+		if (error) {
+			return jsonAppError(error, headers);
+		}
+
+		const revisionError = await recordItemRevisions(client, user.id, "delete", [
+			{ itemId: item.id, before: item, after: null },
+		]);
+		if (revisionError) {
+			logger.error("Error recording item revisions", { error: revisionError });
+		}
+
+		return new Response(null, { status: 204, headers });
+	}
+
+	const body = await readJsonBody(request);
+	const result = validateItem({
+		name: body.name ?? item.name,
+		description: body.description ?? item.description,
+	});
+
+	if (!result.success) {
+		return jsonError(400, "Invalid item", headers, {
+			fieldErrors: result.fieldErrors,
+		});
+	}
+
+	const { data: updated, error } = await client
+		.from("items")
+		.update(result.data)
+		.eq("id", item.id)
+		.eq("user_id", user.id)
+		.select(ITEM_COLUMNS)
+		.single();
+
+	if (error) {
+		return jsonAppError(error, headers);
+	}
+
+	const revisionError = await recordItemRevisions(client, user.id, "update", [
+		{ itemId: item.id, before: item, after: updated },
+	]);
+	if (revisionError) {
+		logger.error("Error recording item revisions", { error: revisionError });
+	}
+
+	return Response.json({ item: updated }, { headers });
+}
+
+export const action = withRequestLog("api.items.$id", "action", actionImpl);
@@ -0,0 +1,124 @@
+/**
+ * JSON API resource route for the items collection.
+ *
+ * `GET /api/items` lists the caller's items and accepts the same `q`, `tag`,
+ * `sort`, `order`, `page` and `pageSize` search parameters as `/crud`.
+ * `POST /api/items` creates an item from a JSON body.
+ *
+ * Requests authenticate with the session cookies or an
+ * `Authorization: Bearer <access token>` header.
+ *
+ * @module api.items
+ */
+
+import { Route } from "./+types/api.items";
+import { requireApiUser } from "~/auth";
+import { jsonAppError, jsonError, readJsonBody } from "~/api";
+import {
+	getItemSearchFilter,
+	ITEM_COLUMNS,
+	parseItemListParams,
+	validateItem,
+} from "~/items";
+import { ITEM_TAG_NAMES_COLUMN, toTagNamesFilter } from "~/tags";
+import { logger } from "~/logger";
+import { recordItemRevisions } from "~/revisions";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Loader function to list the caller's items.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<Response>} A JSON response with one page of items and the total count.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { user, client, headers } = await requireApiUser(request);
+	const params = parseItemListParams(new URL(request.url).searchParams);
+	const from = (params.page - 1) * params.pageSize;
+
+	let query = client
+		.from("items")
+		.select(ITEM_COLUMNS, { count: "exact" })
+		.eq("user_id", user.id)
+		.is("deleted_at", null);
+
+	if (params.q) {
+		query = query.or(getItemSearchFilter(params.q));
+	}
+
+	if (params.tags.length > 0) {
+		query = query.contains(
+			ITEM_TAG_NAMES_COLUMN,
+			toTagNamesFilter(params.tags),
+		);
+	}
+
+	const {
+		data: items,
+		error,
+		count,
+	} = await query
+		.order(params.sort, { ascending: params.order === "asc" })
+		.order("id", { ascending: params.order === "asc" })
+		.range(from, from + params.pageSize - 1);
+
+	// Past the last page PostgREST rejects the range; that's just an empty page
+	if (error && error.code !== "PGRST103") {
+		return jsonAppError(error, headers);
+	}
+
+	return Response.json(
+		{
+			items: items ?? [],
+			total: count ?? 0,
+			page: params.page,
+			pageSize: params.pageSize,
+		},
+		{ headers },
+	);
+}
+
+export const loader = withRequestLog("api.items", "loader", loaderImpl);
+
+/**
+ * Action function to create an item.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<Response>} A 201 JSON response with the new item, or a JSON error.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	if (request.method !== "POST") {
+		return jsonError(405, "Method not allowed", { Allow: "GET, POST" });
+	}
+
+	const { user, client, headers } = await requireApiUser(request);
+	const body = await readJsonBody(request);
+	const result = validateItem(body);
+
+	if (!result.success) {
+		return jsonError(400, "Invalid item", headers, {
+			fieldErrors: result.fieldErrors,
+		});
+	}
+
+	const { data: item, error } = await client
+		.from("items")
+		.insert({ ...result.data, user_id: user.id })
+		.select(ITEM_COLUMNS)
+		.single();
+
+	if (error) {
+		return jsonAppError(error, headers);
+	}
+
+	const revisionError = await recordItemRevisions(client, user.id, "create", [
+		{ itemId: item.id, before: null, after: item },
+	]);
+	if (revisionError) {
+		logger.error("Error recording item revisions", { error: revisionError });
+	}
+
+	return Response.json({ item }, { status: 201, headers });
+}
+
+export const action = withRequestLog("api.items", "action", actionImpl);
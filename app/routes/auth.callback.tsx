@@ -0,0 +1,52 @@
+/**
+ * Auth callback route for PKCE code exchange.
+ *
+ * Supabase redirects here with a `code` after email confirmation, magic
+ * link sign-in and OAuth sign-in. The code is exchanged for a session and
+ * the user is sent on to the `next` parameter (or home).
+ *
+ * @module auth.callback
+ */
+
+import { redirect } from "react-router";
+import { Route } from "./+types/auth.callback";
+import { getServerClient } from "~/server";
+import { safeRedirect } from "~/auth";
+import { errorData, toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Loader function to exchange the auth code for a session.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<never>} Redirects to `next` on success, otherwise to the login page with an error.
+ * @throws {Response} The translated error if Supabase can't be reached.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const sbServerClient = getServerClient(request);
+	const url = new URL(request.url);
+	const code = url.searchParams.get("code");
+
+	if (code) {
+		const { error } = await sbServerClient.client.auth.exchangeCodeForSession(
+			code,
+		);
+
+		if (!error) {
+			throw redirect(safeRedirect(url.searchParams.get("next")), {
+				headers: sbServerClient.headers,
+			});
+		}
+
+		// The link is only to blame if Supabase could be reached
+		if (toAppError(error).kind === "unavailable") {
+			throw errorData(error, sbServerClient.headers);
+		}
+	}
+
+	throw redirect("/login?error=link_invalid", {
+		headers: sbServerClient.headers,
+	});
+}
+
+export const loader = withRequestLog("auth.callback", "loader", loaderImpl);
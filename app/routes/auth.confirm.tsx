@@ -0,0 +1,54 @@
+/**
+ * Auth confirm route for token hash verification.
+ *
+ * Email templates that link with `{{ .TokenHash }}` land here with a
+ * `token_hash` and `type`. The one-time token is verified, which starts a
+ * session, and the user is sent on to the `next` parameter (or home).
+ *
+ * @module auth.confirm
+ */
+
+import { redirect } from "react-router";
+import { Route } from "./+types/auth.confirm";
+import { getServerClient } from "~/server";
+import { isEmailOtpType, safeRedirect } from "~/auth";
+import { errorData, toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Loader function to verify the one-time token.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<never>} Redirects to `next` on success, otherwise to the login page with an error.
+ * @throws {Response} The translated error if Supabase can't be reached.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const sbServerClient = getServerClient(request);
+	const url = new URL(request.url);
+	const tokenHash = url.searchParams.get("token_hash");
+	const type = url.searchParams.get("type");
+
+	if (tokenHash && isEmailOtpType(type)) {
+		const { error } = await sbServerClient.client.auth.verifyOtp({
+			type,
+			token_hash: tokenHash,
+		});
+
+		if (!error) {
+			throw redirect(safeRedirect(url.searchParams.get("next")), {
+				headers: sbServerClient.headers,
+			});
+		}
+
+		// The link is only to blame if Supabase could be reached
+		if (toAppError(error).kind === "unavailable") {
+			throw errorData(error, sbServerClient.headers);
+		}
+	}
+
+	throw redirect("/login?error=link_invalid", {
+		headers: sbServerClient.headers,
+	});
+}
+
+export const loader = withRequestLog("auth.confirm", "loader", loaderImpl);
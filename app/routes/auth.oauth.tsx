@@ -0,0 +1,73 @@
+/**
+ * OAuth sign-in route.
+ *
+ * The OAuth buttons on the login and register pages post here. The action
+ * starts `signInWithOAuth` on the server, which stores the PKCE verifier in
+ * a cookie, and redirects to the provider. The provider sends the user back
+ * through `/auth/callback`.
+ *
+ * @module auth.oauth
+ */
+
+import { redirect } from "react-router";
+import { Route } from "./+types/auth.oauth";
+import { getServerClient } from "~/server";
+import {
+	getAuthCallbackUrl,
+	getOAuthProviders,
+	isOAuthProvider,
+	safeRedirect,
+} from "~/auth";
+import { requireCsrf } from "~/csrf";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Loader function that sends direct visits back to the login page.
+ *
+ * @returns {Promise<never>} Redirects to the login page.
+ */
+async function loaderImpl() {
+	throw redirect("/login");
+}
+
+export const loader = withRequestLog("auth.oauth", "loader", loaderImpl);
+
+/**
+ * Handles the action for starting an OAuth sign-in.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<never>} Redirects to the provider, or to the login page with an error.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const sbServerClient = getServerClient(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const provider = formData.get("provider");
+
+	if (!isOAuthProvider(provider) || !getOAuthProviders().includes(provider)) {
+		throw redirect("/login?error=oauth_failed", {
+			headers: sbServerClient.headers,
+		});
+	}
+
+	const { data: oauthData, error } =
+		await sbServerClient.client.auth.signInWithOAuth({
+			provider,
+			options: {
+				redirectTo: getAuthCallbackUrl(
+					request,
+					safeRedirect(formData.get("redirectTo")),
+				),
+			},
+		});
+
+	if (error || !oauthData.url) {
+		throw redirect("/login?error=oauth_failed", {
+			headers: sbServerClient.headers,
+		});
+	}
+
+	throw redirect(oauthData.url, { headers: sbServerClient.headers });
+}
+
+export const action = withRequestLog("auth.oauth", "action", actionImpl);
@@ -0,0 +1,504 @@
+/**
+ * Edit route for a single item.
+ *
+ * Renders the edit form for one of the signed-in user's items inside the
+ * CRUD page. The form posts to this route's action with the item's fetcher
+ * key, so the item's row in the list shows the pending edit. Missing items,
+ * items in the trash and items owned by someone else are all reported as
+ * not found.
+ *
+ * @module crud.$id.edit
+ */
+
+import { useState } from "react";
+import {
+	data,
+	Link,
+	redirect,
+	useFetcher,
+	useLocation,
+	useNavigate,
+	type MetaFunction,
+} from "react-router";
+import { Route } from "./+types/crud.$id.edit";
+import type { ItemActionResult } from "./crud";
+import { requireUser } from "~/auth";
+import {
+	ITEM_COLUMNS,
+	ITEM_DESCRIPTION_MAX_LENGTH,
+	ITEM_NAME_MAX_LENGTH,
+	itemFetcherKey,
+	requireItem,
+	saveItemTagsAndAttachments,
+	validateItem,
+	type Item,
+	type ItemFields,
+} from "~/items";
+import { recordItemRevisions } from "~/revisions";
+import { listItemTags, listTags, parseTags, validateTags } from "~/tags";
+import {
+	ATTACHMENT_ACCEPT,
+	getAttachmentFiles,
+	validateAttachments,
+} from "~/attachments";
+import { getPublicConfig } from "~/config";
+import { requireCsrf } from "~/csrf";
+import { errorData, toAppError } from "~/errors";
+import { logger } from "~/logger";
+import { useItemChanges } from "~/realtime";
+import { CsrfInput } from "~/components/csrf-form";
+import { ErrorPage } from "~/components/error-page";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Edit Item - New React Router Supabase App" },
+		{ name: "description", content: "Change an item's details." },
+	];
+};
+
+/**
+ * Loader function to fetch an item and its tags for editing.
+ *
+ * The user's tags are included for autocomplete, and the Supabase URL and
+ * anon key so the form can notice changes made elsewhere.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request and params.
+ * @returns {Promise<{ item: Item, itemTags: Array<string>, tags: Array<string>, env: Object }>} The item, its tag names, the user's tags and the browser environment.
+ * @throws {Response} A 404 response if the item doesn't exist, is in the trash or belongs to someone else, or the translated error if it or its tags couldn't be read.
+ */
+async function loaderImpl({ request, params }: Route.LoaderArgs) {
+	const sbServerClient = await requireUser(request);
+	const item = await requireItem(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		params.id,
+		sbServerClient.headers,
+	);
+
+	const [itemTags, tags] = await Promise.all([
+		listItemTags(sbServerClient.client, [item.id]),
+		listTags(sbServerClient.client, sbServerClient.user.id),
+	]).catch((error) => {
+		logger.error("Error loading tags", { error });
+		throw errorData(error, sbServerClient.headers);
+	});
+
+	return data(
+		{
+			item,
+			itemTags: itemTags[item.id] ?? [],
+			tags,
+			env: getPublicConfig(),
+		},
+		{ headers: sbServerClient.headers },
+	);
+}
+
+export const loader = withRequestLog("crud.$id.edit", "loader", loaderImpl);
+
+/**
+ * Action function to save changes to an item.
+ *
+ * Submitted fields are validated with the shared item schema; invalid
+ * submissions return a 400 with per-field errors and the submitted values,
+ * so the form shows them with or without JavaScript. The saved item gets
+ * its tags and new attachments and a revision, then the user is redirected
+ * to the item's page, keeping the list's search string. If the item was
+ * saved but its tags or attachments weren't, the error is returned instead.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request and params.
+ * @returns {Promise<ItemActionResult>} The error, field errors and submitted values. Redirects once saved.
+ * @throws {Response} A 404 response if the item doesn't exist, is in the trash or belongs to someone else.
+ */
+async function actionImpl({ request, params }: Route.ActionArgs) {
+	const sbServerClient = await requireUser(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const before = await requireItem(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		params.id,
+		sbServerClient.headers,
+	);
+
+	const result = validateItem(formData);
+	const tags = parseTags(formData.get("tags"));
+	const tagsError = validateTags(tags);
+	const files = getAttachmentFiles(formData);
+	const attachmentsError = validateAttachments(files);
+	if (!result.success || tagsError || attachmentsError) {
+		return data<ItemActionResult>(
+			{
+				success: false,
+				data: null,
+				error: null,
+				fieldErrors: {
+					...(!result.success && result.fieldErrors),
+					...(tagsError && { tags: tagsError }),
+					...(attachmentsError && { attachments: attachmentsError }),
+				},
+				values: {
+					id: before.id,
+					...(result.success ? result.data : result.values),
+					tags: tags.join(", "),
+				},
+			},
+			{ status: 400, headers: sbServerClient.headers },
+		);
+	}
+
+	const { name, description } = result.data;
+
+	const { data: items, error } = await sbServerClient.client
+		.from("items")
+		.update({ name, description })
+		.eq("id", before.id)
+		.eq("user_id", sbServerClient.user.id)
+		.select(ITEM_COLUMNS);
+
+	if (error) {
+		logger.error("Error editing item", { error });
+		const { status, message } = toAppError(error);
+		return data<ItemActionResult>(
+			{
+				success: false,
+				data: null,
+				error: message,
+				values: {
+					id: before.id,
+					name,
+					description,
+					tags: tags.join(", "),
+				},
+			},
+			{ status, headers: sbServerClient.headers },
+		);
+	}
+
+	const item = items?.length > 0 ? items[0] : null;
+	if (!item) {
+		throw data("Item not found", {
+			status: 404,
+			headers: sbServerClient.headers,
+		});
+	}
+
+	const revisionError = await recordItemRevisions(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		"update",
+		[{ itemId: item.id, before, after: item }],
+	);
+	if (revisionError) {
+		logger.error("Error recording item revisions", { error: revisionError });
+	}
+
+	const saveError = await saveItemTagsAndAttachments(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		item.id,
+		tags,
+		files,
+	);
+	if (saveError) {
+		return data<ItemActionResult>(
+			{ success: true, data: item, error: saveError },
+			{ headers: sbServerClient.headers },
+		);
+	}
+
+	throw redirect(`/crud/${item.id}${new URL(request.url).search}`, {
+		headers: sbServerClient.headers,
+	});
+}
+
+export const action = withRequestLog("crud.$id.edit", "action", actionImpl);
+
+/**
+ * Item edit component. The form is keyed by the item id, so switching to
+ * another item starts over from that item's values.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - The item, its tags, the user's tags and the browser environment.
+ * @param {Object} props.actionData - The result of a save posted without JavaScript.
+ * @returns {JSX.Element} The rendered edit form.
+ */
+export default function EditItem({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	return (
+		<ItemEditForm
+			key={loaderData.item.id}
+			loaderData={loaderData}
+			actionData={actionData}
+		/>
+	);
+}
+
+/**
+ * The form that edits an item.
+ *
+ * Once the item is saved the action redirects to the item's page; rejected
+ * values stay in the form with their errors. If the item changes elsewhere
+ * while the form is open, a notice offers to load the latest values.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - The item, its tags, the user's tags and the browser environment.
+ * @param {Object} props.actionData - The result of a save posted without JavaScript.
+ * @returns {JSX.Element} The rendered edit form.
+ */
+function ItemEditForm({
+	loaderData,
+	actionData,
+}: {
+	loaderData: Route.ComponentProps["loaderData"];
+	actionData: Route.ComponentProps["actionData"];
+}) {
+	const { item, itemTags, tags, env } = loaderData;
+	const { search } = useLocation();
+	const navigate = useNavigate();
+	const fetcher = useFetcher<typeof action>({
+		key: itemFetcherKey(item.id),
+	});
+
+	// Values in the form, starting from the values the action rejected or
+	// the loaded item
+	const rejected = actionData?.success === false ? actionData.values : null;
+	const [values, setValues] = useState<ItemFields & { tags: string }>({
+		name: rejected?.name ?? item.name,
+		description: rejected?.description ?? item.description,
+		tags: rejected?.tags ?? itemTags.join(", "),
+	});
+
+	// The fetcher is shared with the item's row, so only results of a
+	// submission from this form count. Without JavaScript the result comes
+	// back as action data
+	const [submitted, setSubmitted] = useState(false);
+	const result = submitted
+		? fetcher.state === "idle"
+			? fetcher.data
+			: undefined
+		: actionData;
+	const failure = result?.success === false ? result : undefined;
+	const fieldErrors = failure?.fieldErrors;
+
+	// Latest values of the item when it changed elsewhere, or null if it was
+	// deleted
+	const [remoteChange, setRemoteChange] = useState<Item | null | undefined>();
+
+	useItemChanges(
+		env,
+		(payload) => {
+			// Ignore the echo of our own save
+			if (fetcher.state !== "idle" || result?.success) {
+				return;
+			}
+			if (payload.eventType === "DELETE" || payload.new.deleted_at) {
+				setRemoteChange(null);
+			} else if (payload.eventType === "UPDATE") {
+				setRemoteChange(payload.new);
+			}
+		},
+		item.id,
+	);
+
+	// Function to replace the form values with the latest remote values
+	const handleLoadLatest = () => {
+		if (!remoteChange) {
+			navigate(`/crud${search}`);
+			return;
+		}
+		setValues((prev) => ({
+			...prev,
+			name: remoteChange.name,
+			description: remoteChange.description,
+		}));
+		setRemoteChange(undefined);
+	};
+
+	// Function to submit the form and remember that it was submitted
+	const handleSubmit = () => {
+		setSubmitted(true);
+		setRemoteChange(undefined);
+	};
+
+	// Tag suggestions that complete the last tag being typed
+	const typedTags = parseTags(values.tags);
+	const tagPrefix = values.tags.includes(",")
+		? `${values.tags.slice(0, values.tags.lastIndexOf(",") + 1)} `
+		: "";
+	const tagSuggestions = tags
+		.filter((tag) => !typedTags.includes(tag))
+		.map((tag) => `${tagPrefix}${tag}`);
+
+	return (
+		<section
+			aria-labelledby="edit-item-title"
+			className="flex flex-col gap-2 border border-gray-300 p-4 rounded-md mb-4"
+		>
+			<h2 id="edit-item-title" className="font-bold">
+				Edit <span className="capitalize">{item.name}</span>
+			</h2>
+			{result?.error && <p className="text-red-500">{result.error}</p>}
+			{remoteChange !== undefined && (
+				<div
+					role="status"
+					className="flex flex-row justify-between items-center gap-2 bg-yellow-100 text-yellow-800 text-sm p-2 rounded-md"
+				>
+					<span>
+						{remoteChange
+							? "This item was updated by someone else."
+							: "This item was deleted by someone else."}
+					</span>
+					<button
+						type="button"
+						onClick={handleLoadLatest}
+						className="underline"
+					>
+						{remoteChange ? "Load latest" : "Close"}
+					</button>
+				</div>
+			)}
+			<fetcher.Form
+				method="post"
+				encType="multipart/form-data"
+				onSubmit={handleSubmit}
+			>
+				<CsrfInput />
+				{/* Lets the item's row in the list show the pending edit */}
+				<input type="hidden" name="actionType" value="editItem" />
+				<div className="flex flex-col gap-2 w-[300px]">
+					<input
+						type="text"
+						name="name"
+						placeholder="Name"
+						value={values.name}
+						onChange={(e) => {
+							const name = e.target.value;
+							setValues((prev) => ({ ...prev, name }));
+						}}
+						className="border border-gray-300 p-1 rounded-md flex-1"
+						maxLength={ITEM_NAME_MAX_LENGTH}
+						aria-label="Name"
+						aria-invalid={fieldErrors?.name ? true : undefined}
+						aria-describedby={fieldErrors?.name ? "edit-name-error" : undefined}
+						required
+					/>
+					{fieldErrors?.name && (
+						<p id="edit-name-error" className="text-red-500 text-sm">
+							{fieldErrors.name}
+						</p>
+					)}
+					<textarea
+						rows={3}
+						name="description"
+						placeholder="Description"
+						value={values.description}
+						onChange={(e) => {
+							const description = e.target.value;
+							setValues((prev) => ({ ...prev, description }));
+						}}
+						className="border border-gray-300 p-1 rounded-md flex-1"
+						maxLength={ITEM_DESCRIPTION_MAX_LENGTH}
+						aria-label="Description"
+						aria-invalid={fieldErrors?.description ? true : undefined}
+						aria-describedby={
+							fieldErrors?.description ? "edit-description-error" : undefined
+						}
+						required
+					/>
+					{fieldErrors?.description && (
+						<p id="edit-description-error" className="text-red-500 text-sm">
+							{fieldErrors.description}
+						</p>
+					)}
+					<input
+						type="text"
+						name="tags"
+						placeholder="Tags, separated by commas"
+						value={values.tags}
+						onChange={(e) => {
+							const tags = e.target.value;
+							setValues((prev) => ({ ...prev, tags }));
+						}}
+						list="edit-tag-suggestions"
+						autoComplete="off"
+						aria-label="Tags"
+						aria-invalid={fieldErrors?.tags ? true : undefined}
+						aria-describedby={fieldErrors?.tags ? "edit-tags-error" : undefined}
+						className="border border-gray-300 p-1 rounded-md flex-1"
+					/>
+					<datalist id="edit-tag-suggestions">
+						{tagSuggestions.map((suggestion) => (
+							<option key={suggestion} value={suggestion} />
+						))}
+					</datalist>
+					{fieldErrors?.tags && (
+						<p id="edit-tags-error" className="text-red-500 text-sm">
+							{fieldErrors.tags}
+						</p>
+					)}
+					<input
+						type="file"
+						name="attachments"
+						multiple
+						accept={ATTACHMENT_ACCEPT}
+						aria-label="Add attachments"
+						aria-invalid={fieldErrors?.attachments ? true : undefined}
+						aria-describedby={
+							fieldErrors?.attachments ? "edit-attachments-error" : undefined
+						}
+						className="text-sm"
+					/>
+					{fieldErrors?.attachments && (
+						<p id="edit-attachments-error" className="text-red-500 text-sm">
+							{fieldErrors.attachments}
+						</p>
+					)}
+				</div>
+				<div className="mt-2 flex flex-row gap-2 items-center">
+					<button
+						type="submit"
+						disabled={fetcher.state !== "idle"}
+						className="bg-blue-500 text-white p-2 rounded-md text-sm disabled:opacity-50"
+					>
+						{fetcher.state !== "idle" ? "Saving..." : "Save Changes"}
+					</button>
+					<Link
+						to={`/crud/${item.id}${search}`}
+						className="bg-gray-500 text-white p-2 rounded-md text-sm"
+					>
+						Cancel
+					</Link>
+				</div>
+			</fetcher.Form>
+		</section>
+	);
+}
+
+/**
+ * Error boundary for the edit form, shown in place of the form inside the
+ * CRUD page when the item can't be loaded.
+ *
+ * @param {Route.ErrorBoundaryProps} props - The error boundary props.
+ * @returns {JSX.Element} The rendered error.
+ */
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+	return (
+		<ErrorPage
+			error={error}
+			notFoundMessage="This item doesn't exist or you don't have access to it."
+		>
+			<Link to="/crud" className="text-blue-500">
+				Back to items
+			</Link>
+		</ErrorPage>
+	);
+}
@@ -0,0 +1,303 @@
+/**
+ * Revision history route for a single item.
+ *
+ * Lists every recorded change to one of the signed-in user's items, newest
+ * first, with a field-level diff. The owner can revert the item to the
+ * values it had after any earlier revision.
+ *
+ * @module crud.$id.history
+ */
+
+import { data, Link, useNavigation, type MetaFunction } from "react-router";
+import { Route } from "./+types/crud.$id.history";
+import { requireUser } from "~/auth";
+import { ITEM_COLUMNS, parseItemId, requireItem, type Item } from "~/items";
+import {
+	diffItemRevision,
+	ITEM_REVISION_COLUMNS,
+	parseItemRevision,
+	recordItemRevisions,
+	type ItemRevisionAction,
+} from "~/revisions";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm } from "~/components/csrf-form";
+import { DateTime } from "~/components/date-time";
+import { logger } from "~/logger";
+import { toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Labels for each kind of revision.
+ */
+const REVISION_LABELS: Record<ItemRevisionAction, string> = {
+	create: "Created",
+	update: "Updated",
+	delete: "Moved to trash",
+	restore: "Restored",
+	purge: "Deleted permanently",
+};
+
+/**
+ * Result returned by the history action.
+ */
+type HistoryActionResult = {
+	data: Item | null;
+	error: string | null;
+};
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Item History - New React Router Supabase App" },
+		{
+			name: "description",
+			content: "See and revert the changes made to an item.",
+		},
+	];
+};
+
+/**
+ * Loader function to fetch an item and its revisions, newest first.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request and params.
+ * @returns {Promise<{ item: Item, revisions: Array<ItemRevision>, userId: string, error: string | null }>} The item, its revisions and any error message.
+ */
+async function loaderImpl({ request, params }: Route.LoaderArgs) {
+	const sbServerClient = await requireUser(request);
+	const item = await requireItem(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		params.id,
+		sbServerClient.headers,
+		{ includeTrashed: true },
+	);
+
+	const { data: rows, error } = await sbServerClient.client
+		.from("item_revisions")
+		.select(ITEM_REVISION_COLUMNS)
+		.eq("item_id", item.id)
+		.order("created_at", { ascending: false })
+		.order("id", { ascending: false });
+
+	const appError = error && toAppError(error);
+	if (error) {
+		logger.error("Error loading item revisions", { error });
+	}
+
+	return data(
+		{
+			item,
+			revisions: (rows ?? []).flatMap((row) => parseItemRevision(row) ?? []),
+			userId: sbServerClient.user.id,
+			error: appError?.message ?? null,
+		},
+		{ status: appError?.status, headers: sbServerClient.headers },
+	);
+}
+
+export const loader = withRequestLog("crud.$id.history", "loader", loaderImpl);
+
+/**
+ * Handles the action for reverting an item to an earlier revision.
+ *
+ * The item's name and description are set to the values it had after the
+ * revision given by `revisionId`, and the revert is recorded as a new
+ * update. Items in the trash must be restored first.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request and params.
+ * @returns {Promise<HistoryActionResult>} The reverted item, or any error message.
+ */
+async function actionImpl({ request, params }: Route.ActionArgs) {
+	const sbServerClient = await requireUser(request);
+	const item = await requireItem(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		params.id,
+		sbServerClient.headers,
+		{ includeTrashed: true },
+	);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const revisionId = parseItemId(formData.get("revisionId"));
+
+	if (formData.get("actionType") !== "revertItem" || revisionId === null) {
+		return data<HistoryActionResult>(
+			{ data: null, error: "Invalid action type" },
+			{ status: 400, headers: sbServerClient.headers },
+		);
+	}
+
+	if (item.deleted_at) {
+		return data<HistoryActionResult>(
+			{ data: null, error: "Restore the item from the trash first" },
+			{ status: 409, headers: sbServerClient.headers },
+		);
+	}
+
+	const { data: row } = await sbServerClient.client
+		.from("item_revisions")
+		.select(ITEM_REVISION_COLUMNS)
+		.eq("id", revisionId)
+		.eq("item_id", item.id)
+		.maybeSingle();
+	const revision = row && parseItemRevision(row);
+
+	if (!revision?.after) {
+		return data<HistoryActionResult>(
+			{ data: null, error: "This revision can't be reverted to" },
+			{ status: 400, headers: sbServerClient.headers },
+		);
+	}
+
+	const { data: items, error } = await sbServerClient.client
+		.from("items")
+		.update(revision.after)
+		.eq("id", item.id)
+		.eq("user_id", sbServerClient.user.id)
+		.select(ITEM_COLUMNS);
+
+	if (error) {
+		logger.error("Error reverting item", { error });
+		const { status, message } = toAppError(error);
+		return data<HistoryActionResult>(
+			{ data: null, error: message },
+			{ status, headers: sbServerClient.headers },
+		);
+	}
+
+	if (!items?.length) {
+		return data<HistoryActionResult>(
+			{ data: null, error: "Item not found" },
+			{ status: 404, headers: sbServerClient.headers },
+		);
+	}
+
+	const revisionError = await recordItemRevisions(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		"update",
+		[{ itemId: item.id, before: item, after: items[0] }],
+	);
+	if (revisionError) {
+		logger.error("Error recording item revisions", {
+			error: revisionError,
+		});
+	}
+
+	return data<HistoryActionResult>(
+		{ data: items[0], error: null },
+		{ headers: sbServerClient.headers },
+	);
+}
+
+export const action = withRequestLog("crud.$id.history", "action", actionImpl);
+
+/**
+ * Item history route component.
+ * This component lists the item's revisions with the fields each one
+ * changed, and a button to revert to the values after each revision.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - Data returned from the loader function, including the item and its revisions.
+ * @param {Object} props.actionData - Data returned from the action function, including any error message.
+ * @returns {JSX.Element} The rendered history component.
+ */
+export default function CrudItemHistory({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const { item, revisions, userId } = loaderData;
+	const error = actionData?.error ?? loaderData.error;
+	const navigation = useNavigation();
+	const pendingRevisionId =
+		navigation.state === "submitting"
+			? Number(navigation.formData?.get("revisionId"))
+			: null;
+
+	return (
+		<div className="flex flex-col p-8 min-w-3/4 w-[500px] mx-auto">
+			<h1 className="text-2xl">History of {item.name}</h1>
+			<div className="text-sm">
+				<Link
+					to={item.deleted_at ? "/crud/trash" : "/crud"}
+					className="text-blue-500"
+				>
+					{item.deleted_at ? "Back to trash" : "Back to items"}
+				</Link>
+			</div>
+
+			{actionData?.data && (
+				<p className="mt-4 text-green-600">Reverted {actionData.data.name}.</p>
+			)}
+			{error && <p className="mt-4 text-red-500">{error}</p>}
+
+			<div className="flex flex-col gap-2 mt-4">
+				{revisions.length === 0 && (
+					<p className="text-sm text-gray-500 text-center">
+						No changes have been recorded for this item.
+					</p>
+				)}
+				{revisions.map((revision) => {
+					const isCurrent =
+						revision.after?.name === item.name &&
+						revision.after?.description === item.description;
+
+					return (
+						<div
+							key={revision.id}
+							className="border border-gray-300 p-4 rounded-md flex flex-col gap-2 text-sm"
+						>
+							<div className="flex flex-row justify-between gap-2">
+								<div>
+									<span className="font-bold">
+										{REVISION_LABELS[revision.action]}
+									</span>{" "}
+									by {revision.actor_id === userId ? "you" : revision.actor_id}{" "}
+									<span className="text-gray-500">
+										<DateTime value={revision.created_at} />
+									</span>
+								</div>
+								{revision.after && !isCurrent && !item.deleted_at && (
+									<CsrfForm method="post">
+										<input type="hidden" name="actionType" value="revertItem" />
+										<input
+											type="hidden"
+											name="revisionId"
+											value={revision.id}
+										/>
+										<button
+											type="submit"
+											disabled={pendingRevisionId === revision.id}
+											className="bg-yellow-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold disabled:opacity-50"
+										>
+											Revert to this
+										</button>
+									</CsrfForm>
+								)}
+							</div>
+							{diffItemRevision(revision).map((change) => (
+								<div key={change.field} className="flex flex-col">
+									<span className="text-gray-500 capitalize">
+										{change.field}
+									</span>
+									{change.before !== null && (
+										<del className="text-red-600">{change.before}</del>
+									)}
+									{change.after !== null && (
+										<ins className="text-green-700 no-underline">
+											{change.after}
+										</ins>
+									)}
+								</div>
+							))}
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,170 @@
+/**
+ * Detail route for a single item.
+ *
+ * Shows one of the signed-in user's items with its tags and attachments,
+ * nested inside the CRUD page so the item has a URL that can be linked or
+ * bookmarked. Missing items, items in the trash and items owned by someone
+ * else are all reported as not found.
+ *
+ * @module crud.$id
+ */
+
+import { data, Link, useLocation, type MetaFunction } from "react-router";
+import { Route } from "./+types/crud.$id";
+import { requireUser } from "~/auth";
+import { requireItem } from "~/items";
+import { listAttachments } from "~/attachments";
+import { listItemTags } from "~/tags";
+import { errorData } from "~/errors";
+import { logger } from "~/logger";
+import { DateTime } from "~/components/date-time";
+import { ErrorPage } from "~/components/error-page";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Item - New React Router Supabase App" },
+		{ name: "description", content: "See an item and its attachments." },
+	];
+};
+
+/**
+ * Loader function to fetch an item with its tags and attachments.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request and params.
+ * @returns {Promise<{ item: Item, tags: Array<string>, attachments: Array<ItemAttachmentLink> }>} The item, its tag names and its attachments with signed URLs.
+ * @throws {Response} A 404 response if the item doesn't exist, is in the trash or belongs to someone else, or the translated error if it or its tags and attachments couldn't be read.
+ */
+async function loaderImpl({ request, params }: Route.LoaderArgs) {
+	const sbServerClient = await requireUser(request);
+	const item = await requireItem(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		params.id,
+		sbServerClient.headers,
+	);
+
+	const [attachments, itemTags] = await Promise.all([
+		listAttachments(sbServerClient.client, [item.id]),
+		listItemTags(sbServerClient.client, [item.id]),
+	]).catch((error) => {
+		logger.error("Error loading tags and attachments", { error });
+		throw errorData(error, sbServerClient.headers);
+	});
+
+	return data(
+		{
+			item,
+			tags: itemTags[item.id] ?? [],
+			attachments: attachments[item.id] ?? [],
+		},
+		{ headers: sbServerClient.headers },
+	);
+}
+
+export const loader = withRequestLog("crud.$id", "loader", loaderImpl);
+
+/**
+ * Item detail component.
+ *
+ * Links keep the list's search string, so closing the item returns to the
+ * same page of the list.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - The item, its tags and its attachments.
+ * @returns {JSX.Element} The rendered item.
+ */
+export default function ItemDetail({ loaderData }: Route.ComponentProps) {
+	const { item, tags, attachments } = loaderData;
+	const { search } = useLocation();
+
+	return (
+		<section
+			aria-labelledby="item-title"
+			className="flex flex-col gap-2 border border-gray-300 p-4 rounded-md mb-4"
+		>
+			<div className="flex flex-row justify-between items-start gap-2">
+				<h2 id="item-title" className="font-bold capitalize">
+					{item.name}
+				</h2>
+				<Link to={`/crud${search}`} className="text-blue-500 text-sm">
+					Close
+				</Link>
+			</div>
+			<p className="text-sm whitespace-pre-wrap">{item.description}</p>
+			<p className="text-xs text-gray-500">
+				Created <DateTime value={item.created_at} />
+			</p>
+			{tags.length > 0 && (
+				<ul className="flex flex-row flex-wrap gap-1" aria-label="Tags">
+					{tags.map((tag) => (
+						<li key={tag}>
+							<Link
+								to={`/crud?${new URLSearchParams({ tag })}`}
+								className="bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full"
+							>
+								{tag}
+							</Link>
+						</li>
+					))}
+				</ul>
+			)}
+			{attachments.length > 0 && (
+				<ul className="flex flex-col gap-1 text-xs" aria-label="Attachments">
+					{attachments.map((attachment) => (
+						<li key={attachment.id}>
+							{attachment.url ? (
+								<a
+									href={attachment.url}
+									target="_blank"
+									rel="noreferrer"
+									className="text-blue-500 underline"
+								>
+									{attachment.name}
+								</a>
+							) : (
+								<span>{attachment.name}</span>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+			<div className="flex flex-row gap-2 text-sm">
+				<Link
+					to={`/crud/${item.id}/edit${search}`}
+					className="bg-yellow-500 text-white p-1 px-2 rounded-md font-bold"
+				>
+					Edit
+				</Link>
+				<Link to={`/crud/${item.id}/history`} className="text-blue-500 p-1">
+					History
+				</Link>
+			</div>
+		</section>
+	);
+}
+
+/**
+ * Error boundary for the item, shown in place of the item inside the CRUD
+ * page when it can't be loaded.
+ *
+ * @param {Route.ErrorBoundaryProps} props - The error boundary props.
+ * @returns {JSX.Element} The rendered error.
+ */
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+	return (
+		<ErrorPage
+			error={error}
+			notFoundMessage="This item doesn't exist or you don't have access to it."
+		>
+			<Link to="/crud" className="text-blue-500">
+				Back to items
+			</Link>
+		</ErrorPage>
+	);
+}
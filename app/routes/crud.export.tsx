@@ -0,0 +1,169 @@
+/**
+ * Export resource route for the CRUD module.
+ *
+ * `GET /crud/export?format=csv|json` downloads the signed-in user's items,
+ * honoring the same `q`, `tag`, `sort` and `order` search parameters as
+ * `/crud`.
+ * Rows are read in batches and streamed, so large exports don't have to fit
+ * in memory.
+ *
+ * @module crud.export
+ */
+
+import { Route } from "./+types/crud.export";
+import { requireUser } from "~/auth";
+import { toCsvRow } from "~/csv";
+import {
+	getItemSearchFilter,
+	ITEM_COLUMNS,
+	parseItemListParams,
+	type Item,
+} from "~/items";
+import { ITEM_TAG_NAMES_COLUMN, toTagNamesFilter } from "~/tags";
+import { errorData } from "~/errors";
+import { logger } from "~/logger";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Number of rows read from Supabase per batch.
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Columns written to the export, in order.
+ */
+const EXPORT_COLUMNS = ["id", "created_at", "name", "description"] as const;
+
+/**
+ * Loader function to stream the export.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<Response>} A streamed CSV or JSON file download.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { user, client, headers } = await requireUser(request);
+	const searchParams = new URL(request.url).searchParams;
+	const params = parseItemListParams(searchParams);
+	const format = searchParams.get("format") === "json" ? "json" : "csv";
+
+	/**
+	 * Reports a failure before streaming starts with its translated status.
+	 *
+	 * @param {unknown} error - The error.
+	 * @throws {Response} The translated error.
+	 */
+	const fail = (error: unknown): never => {
+		logger.error("Error exporting items", { error });
+		throw errorData(error, headers);
+	};
+
+	/**
+	 * Reads one batch of the user's items, in list order.
+	 *
+	 * @param {number} from - Offset of the first row.
+	 * @returns {Promise<Item[]>} The rows.
+	 */
+	const fetchBatch = async (from: number) => {
+		let query = client
+			.from("items")
+			.select(ITEM_COLUMNS)
+			.eq("user_id", user.id)
+			.is("deleted_at", null);
+
+		if (params.q) {
+			query = query.or(getItemSearchFilter(params.q));
+		}
+
+		if (params.tags.length > 0) {
+			query = query.contains(
+				ITEM_TAG_NAMES_COLUMN,
+				toTagNamesFilter(params.tags),
+			);
+		}
+
+		const { data: items, error } = await query
+			.order(params.sort, { ascending: params.order === "asc" })
+			.order("id", { ascending: params.order === "asc" })
+			.range(from, from + EXPORT_BATCH_SIZE - 1);
+
+		// Past the last row PostgREST rejects the range
+		if (error?.code === "PGRST103") {
+			return [];
+		}
+		if (error) {
+			throw error;
+		}
+
+		return items ?? [];
+	};
+
+	/**
+	 * Formats one exported row.
+	 *
+	 * @param {Item} item - The item.
+	 * @param {boolean} isFirst - Whether this is the first row of the file.
+	 * @returns {string} The CSV line or JSON array element.
+	 */
+	const formatRow = (item: Item, isFirst: boolean) => {
+		if (format === "csv") {
+			return toCsvRow(EXPORT_COLUMNS.map((column) => item[column]));
+		}
+
+		const row = Object.fromEntries(
+			EXPORT_COLUMNS.map((column) => [column, item[column]]),
+		);
+		return `${isFirst ? "" : ","}${JSON.stringify(row)}`;
+	};
+
+	// Fail before streaming starts if the first batch can't be read
+	const firstBatch = await fetchBatch(0).catch(fail);
+	const encoder = new TextEncoder();
+	let batch: Item[] | null = firstBatch;
+	let offset = 0;
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(
+				encoder.encode(format === "json" ? "[" : toCsvRow([...EXPORT_COLUMNS])),
+			);
+		},
+		async pull(controller) {
+			try {
+				const rows: Item[] = batch ?? (await fetchBatch(offset));
+				batch = null;
+
+				const chunk = rows
+					.map((item, index) => formatRow(item, offset + index === 0))
+					.join("");
+				controller.enqueue(encoder.encode(chunk));
+				offset += rows.length;
+
+				if (rows.length < EXPORT_BATCH_SIZE) {
+					if (format === "json") {
+						controller.enqueue(encoder.encode("]"));
+					}
+					controller.close();
+				}
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+	});
+
+	const date = new Date().toISOString().slice(0, 10);
+	headers.set(
+		"Content-Type",
+		format === "json"
+			? "application/json; charset=utf-8"
+			: "text/csv; charset=utf-8",
+	);
+	headers.set(
+		"Content-Disposition",
+		`attachment; filename="items-${date}.${format}"`,
+	);
+	headers.set("Cache-Control", "no-store");
+
+	return new Response(body, { headers });
+}
+
+export const loader = withRequestLog("crud.export", "loader", loaderImpl);
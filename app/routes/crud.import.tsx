@@ -0,0 +1,407 @@
+/**
+ * Import route for the CRUD module.
+ *
+ * Users upload a CSV or JSON file of items, review a preview with
+ * per-row validation errors, then import the valid rows in one batch.
+ *
+ * @module crud.import
+ */
+
+import { data, Link, useNavigation, type MetaFunction } from "react-router";
+import { Route } from "./+types/crud.import";
+import { requireUser } from "~/auth";
+import { parseCsv } from "~/csv";
+import {
+	ITEM_COLUMNS,
+	validateItem,
+	type ItemFieldErrors,
+	type ItemFields,
+} from "~/items";
+import { recordItemRevisions } from "~/revisions";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm } from "~/components/csrf-form";
+import { toAppError } from "~/errors";
+import { logger } from "~/logger";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Largest file accepted for import, in bytes.
+ */
+const IMPORT_MAX_SIZE = 1024 * 1024;
+
+/**
+ * Most rows accepted in a single import.
+ */
+const IMPORT_MAX_ROWS = 1000;
+
+/**
+ * A record read from the uploaded file, with the line of a CSV file it
+ * starts on (the header is line 1) or its position in a JSON array.
+ */
+type ImportRecord = {
+	line: number;
+	record: Record<string, string | undefined>;
+};
+
+/**
+ * A row of the uploaded file after validation.
+ */
+type ImportRow = {
+	line: number;
+	values: ItemFields;
+	fieldErrors: ItemFieldErrors | null;
+};
+
+/**
+ * Result returned by the import action.
+ */
+type ImportActionResult = {
+	preview: ImportRow[] | null;
+	imported: number | null;
+	error: string | null;
+};
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Import Items - New React Router Supabase App" },
+		{
+			name: "description",
+			content: "Import items from a CSV or JSON file.",
+		},
+	];
+};
+
+/**
+ * Loader function to require a signed-in user.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<null>} Nothing; anonymous visitors are redirected to the login page.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { headers } = await requireUser(request);
+	return data(null, { headers });
+}
+
+export const loader = withRequestLog("crud.import", "loader", loaderImpl);
+
+/**
+ * Keeps the string fields of a parsed JSON record; other values, and
+ * records that aren't objects, are dropped and fail validation.
+ *
+ * @param {unknown} value - The parsed record.
+ * @returns {Record<string, string>} The record's string fields.
+ */
+const toImportRecord = (value: unknown): Record<string, string> =>
+	value && typeof value === "object"
+		? Object.fromEntries(
+				Object.entries(value).filter(
+					(entry): entry is [string, string] => typeof entry[1] === "string",
+				),
+		  )
+		: {};
+
+/**
+ * Reads raw records from an uploaded file.
+ *
+ * JSON files must contain an array of objects. CSV files must have a header
+ * row naming the `name` and `description` columns; other columns are ignored.
+ *
+ * @param {File} file - The uploaded file.
+ * @returns {Promise<ImportRecord[]>} The records, in file order.
+ * @throws {Error} If the file can't be read as CSV or JSON.
+ */
+const readRecords = async (file: File): Promise<ImportRecord[]> => {
+	const text = await file.text();
+
+	if (file.name.toLowerCase().endsWith(".json") || /^\s*\[/.test(text)) {
+		const parsed: unknown = JSON.parse(text);
+		if (!Array.isArray(parsed)) {
+			throw new Error("JSON files must contain an array of items");
+		}
+		return parsed.map((value, index) => ({
+			line: index + 1,
+			record: toImportRecord(value),
+		}));
+	}
+
+	const [header, ...rows] = parseCsv(text);
+	const columns = (header?.fields ?? []).map((column) =>
+		column.trim().toLowerCase(),
+	);
+	if (!columns.includes("name")) {
+		throw new Error("CSV files must have a header row with a name column");
+	}
+
+	return rows.map(({ line, fields }) => ({
+		line,
+		record: Object.fromEntries(
+			columns.map((column, index) => [column, fields[index]]),
+		),
+	}));
+};
+
+/**
+ * Handles the action for previewing and importing items.
+ *
+ * With `intent=preview` the uploaded file is parsed and every row is
+ * validated with the shared item schema. With `intent=import` the valid
+ * rows from the preview are validated again and inserted in one batch.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<ImportActionResult>} The preview rows, the number of imported items, or an error message.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const { user, client, headers } = await requireUser(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const intent = formData.get("intent");
+
+	if (intent === "preview") {
+		const file = formData.get("file");
+
+		if (!(file instanceof File) || file.size === 0) {
+			return data<ImportActionResult>(
+				{ preview: null, imported: null, error: "Choose a file to import" },
+				{ status: 400, headers },
+			);
+		}
+
+		if (file.size > IMPORT_MAX_SIZE) {
+			return data<ImportActionResult>(
+				{
+					preview: null,
+					imported: null,
+					error: "Files must be at most 1 MB",
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		let records: ImportRecord[];
+		try {
+			records = await readRecords(file);
+		} catch (error) {
+			return data<ImportActionResult>(
+				{
+					preview: null,
+					imported: null,
+					error:
+						error instanceof Error
+							? `Couldn't read the file: ${error.message}`
+							: "Couldn't read the file",
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		if (records.length > IMPORT_MAX_ROWS) {
+			return data<ImportActionResult>(
+				{
+					preview: null,
+					imported: null,
+					error: `Files may contain at most ${IMPORT_MAX_ROWS} items`,
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		const preview = records.map(({ line, record }): ImportRow => {
+			const result = validateItem(record);
+			return {
+				line,
+				values: result.success ? result.data : result.values,
+				fieldErrors: result.success ? null : result.fieldErrors,
+			};
+		});
+
+		return data<ImportActionResult>(
+			{ preview, imported: null, error: null },
+			{ headers },
+		);
+	}
+
+	if (intent === "import") {
+		let records: unknown;
+		try {
+			records = JSON.parse(String(formData.get("rows") ?? "[]"));
+		} catch {
+			records = null;
+		}
+
+		if (!Array.isArray(records) || records.length > IMPORT_MAX_ROWS) {
+			return data<ImportActionResult>(
+				{ preview: null, imported: null, error: "Invalid import data" },
+				{ status: 400, headers },
+			);
+		}
+
+		const rows = records
+			.map((record) => validateItem(toImportRecord(record)))
+			.filter((result) => result.success)
+			.map((result) => ({ ...result.data, user_id: user.id }));
+
+		if (rows.length === 0) {
+			return data<ImportActionResult>(
+				{ preview: null, imported: null, error: "There are no valid rows" },
+				{ status: 400, headers },
+			);
+		}
+
+		const { data: items, error } = await client
+			.from("items")
+			.insert(rows)
+			.select(ITEM_COLUMNS);
+
+		if (error) {
+			logger.error("Error importing items", { error });
+			const { status, message } = toAppError(error);
+			return data<ImportActionResult>(
+				{ preview: null, imported: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		const revisionError = await recordItemRevisions(
+			client,
+			user.id,
+			"create",
+			items.map((item) => ({ itemId: item.id, before: null, after: item })),
+		);
+		if (revisionError) {
+			logger.error("Error recording item revisions", { error: revisionError });
+		}
+
+		return data<ImportActionResult>(
+			{ preview: null, imported: rows.length, error: null },
+			{ headers },
+		);
+	}
+
+	return data<ImportActionResult>(
+		{ preview: null, imported: null, error: "Invalid action type" },
+		{ status: 400, headers },
+	);
+}
+
+export const action = withRequestLog("crud.import", "action", actionImpl);
+
+/**
+ * Import route component.
+ * This component shows the upload form, the preview of the uploaded rows
+ * with their validation errors, and the result of the import.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.actionData - Data returned from the action function, including the preview or any error message.
+ * @returns {JSX.Element} The rendered import component.
+ */
+export default function CrudImport({ actionData }: Route.ComponentProps) {
+	const navigation = useNavigation();
+	const submittingIntent =
+		navigation.state === "submitting"
+			? navigation.formData?.get("intent")
+			: null;
+	const preview = actionData?.preview;
+	const validRows = preview?.filter((row) => !row.fieldErrors) ?? [];
+
+	return (
+		<div className="flex flex-col p-8 min-w-3/4 w-[500px] mx-auto">
+			<h1 className="text-2xl">Import Items</h1>
+			<div className="text-sm">
+				<Link to="/crud" className="text-blue-500">
+					Back to items
+				</Link>
+			</div>
+
+			{actionData?.imported ? (
+				<p className="mt-4 text-green-600">
+					Imported {actionData.imported} items.
+				</p>
+			) : null}
+			{actionData?.error && (
+				<p className="mt-4 text-red-500">{actionData.error}</p>
+			)}
+
+			<CsrfForm
+				method="post"
+				encType="multipart/form-data"
+				className="flex flex-col gap-2 mt-4 border border-gray-300 p-4 rounded-md"
+			>
+				<input type="hidden" name="intent" value="preview" />
+				<p className="text-sm">
+					Upload a CSV file with <code>name</code> and <code>description</code>{" "}
+					columns, or a JSON array of objects with the same fields.
+				</p>
+				<input
+					type="file"
+					name="file"
+					accept=".csv,.json,text/csv,application/json"
+					aria-label="File to import"
+					className="text-sm"
+				/>
+				<div>
+					<button
+						type="submit"
+						disabled={submittingIntent === "preview"}
+						className="bg-blue-500 text-white p-2 rounded-md text-sm disabled:opacity-50"
+					>
+						{submittingIntent === "preview" ? "Reading..." : "Preview"}
+					</button>
+				</div>
+			</CsrfForm>
+
+			{preview && (
+				<div className="mt-4">
+					<p className="text-sm">
+						{validRows.length} of {preview.length} rows are valid.
+					</p>
+					<div className="flex flex-col gap-2 mt-2">
+						{preview.map((row) => (
+							<div
+								key={row.line}
+								className={`border p-2 rounded-md text-sm ${
+									row.fieldErrors ? "border-red-300" : "border-gray-300"
+								}`}
+							>
+								<div className="flex flex-row gap-2">
+									<span className="text-gray-500">#{row.line}</span>
+									<span className="font-bold">{row.values.name}</span>
+								</div>
+								<div>{row.values.description}</div>
+								{row.fieldErrors &&
+									Object.values(row.fieldErrors).map((message) => (
+										<p key={message} className="text-red-500">
+											{message}
+										</p>
+									))}
+							</div>
+						))}
+					</div>
+					{validRows.length > 0 && (
+						<CsrfForm method="post" className="mt-4">
+							<input type="hidden" name="intent" value="import" />
+							<input
+								type="hidden"
+								name="rows"
+								value={JSON.stringify(validRows.map((row) => row.values))}
+							/>
+							<button
+								type="submit"
+								disabled={submittingIntent === "import"}
+								className="bg-blue-500 text-white p-2 rounded-md text-sm disabled:opacity-50"
+							>
+								{submittingIntent === "import"
+									? "Importing..."
+									: `Import ${validRows.length} valid rows`}
+							</button>
+						</CsrfForm>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
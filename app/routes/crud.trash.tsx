@@ -0,0 +1,298 @@
+/**
+ * Trash route for the CRUD module.
+ *
+ * Deleted items are kept with a `deleted_at` timestamp instead of being
+ * removed. This page lists them so they can be restored or deleted for good.
+ * The undo notice on `/crud` also posts its restore here.
+ *
+ * @module crud.trash
+ */
+
+import { data, Link, useNavigation, type MetaFunction } from "react-router";
+import { Route } from "./+types/crud.trash";
+import { requireUser } from "~/auth";
+import { ITEM_COLUMNS, parseItemId, type Item } from "~/items";
+import { recordItemRevisions } from "~/revisions";
+import { removeAttachments } from "~/attachments";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm } from "~/components/csrf-form";
+import { DateTime } from "~/components/date-time";
+import { logger } from "~/logger";
+import { toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Result returned by the trash action.
+ */
+type TrashActionResult = {
+	data: Item | null;
+	error: string | null;
+};
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Trash - New React Router Supabase App" },
+		{
+			name: "description",
+			content: "Restore or permanently delete your deleted items.",
+		},
+	];
+};
+
+/**
+ * Loader function to fetch the signed-in user's items in the trash, most
+ * recently deleted first.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<{ items: Array<Item>, error: string | null }>} The deleted items and any error message.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { user, client, headers } = await requireUser(request);
+
+	const { data: items, error } = await client
+		.from("items")
+		.select(ITEM_COLUMNS)
+		.eq("user_id", user.id)
+		.not("deleted_at", "is", null)
+		.order("deleted_at", { ascending: false });
+
+	const appError = error && toAppError(error);
+	if (error) {
+		logger.error("Error loading the trash", { error });
+	}
+
+	return data(
+		{ items: items ?? [], error: appError?.message ?? null },
+		{ status: appError?.status, headers },
+	);
+}
+
+export const loader = withRequestLog("crud.trash", "loader", loaderImpl);
+
+/**
+ * Handles the action for restoring and permanently deleting items.
+ *
+ * `restoreItem` clears the `deleted_at` timestamp and `purgeItem` removes
+ * the row. Both only match the signed-in user's items that are in the
+ * trash, so anything else is reported as not found. Both are recorded in
+ * the item's revision history, which is kept after the item is gone. A
+ * purge is only carried out once its revision is recorded, and the item's
+ * attachments are removed from Storage first.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<TrashActionResult>} The restored item, or any error message.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const { user, client, headers } = await requireUser(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const actionType = formData.get("actionType");
+	const id = parseItemId(formData.get("id"));
+
+	if (id === null) {
+		return data<TrashActionResult>(
+			{ data: null, error: "Invalid item id" },
+			{ status: 400, headers },
+		);
+	}
+
+	if (actionType !== "restoreItem" && actionType !== "purgeItem") {
+		return data<TrashActionResult>(
+			{ data: null, error: "Invalid action type" },
+			{ status: 400, headers },
+		);
+	}
+
+	if (actionType === "purgeItem") {
+		// Check the item is in the trash before touching its history and
+		// attachments
+		const { data: trashed, error } = await client
+			.from("items")
+			.select(ITEM_COLUMNS)
+			.eq("id", id)
+			.eq("user_id", user.id)
+			.not("deleted_at", "is", null)
+			.maybeSingle();
+
+		if (error) {
+			logger.error("Error loading item", { error });
+			const { status, message } = toAppError(error);
+			return data<TrashActionResult>(
+				{ data: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		if (trashed) {
+			// Revisions can only be recorded while the item exists
+			const revisionError = await recordItemRevisions(
+				client,
+				user.id,
+				"purge",
+				[{ itemId: id, before: trashed, after: null }],
+			);
+			if (revisionError) {
+				logger.error("Error recording item revisions", {
+					error: revisionError,
+				});
+				const { status, message } = toAppError(revisionError);
+				return data<TrashActionResult>(
+					{ data: null, error: message },
+					{ status, headers },
+				);
+			}
+
+			const attachmentsError = await removeAttachments(client, {
+				itemIds: [id],
+			});
+			if (attachmentsError) {
+				return data<TrashActionResult>(
+					{ data: null, error: attachmentsError.message },
+					{ status: attachmentsError.status, headers },
+				);
+			}
+		}
+	}
+
+	const query =
+		actionType === "restoreItem"
+			? client.from("items").update({ deleted_at: null })
+			: client.from("items").delete();
+
+	const { data: items, error } = await query
+		.eq("id", id)
+		.eq("user_id", user.id)
+		.not("deleted_at", "is", null)
+		.select(ITEM_COLUMNS);
+
+	if (error) {
+		logger.error("Error updating the trash", { error });
+		const { status, message } = toAppError(error);
+		return data<TrashActionResult>(
+			{ data: null, error: message },
+			{ status, headers },
+		);
+	}
+
+	if (!items?.length) {
+		return data<TrashActionResult>(
+			{ data: null, error: "Item not found" },
+			{ status: 404, headers },
+		);
+	}
+
+	if (actionType === "restoreItem") {
+		const revisionError = await recordItemRevisions(
+			client,
+			user.id,
+			"restore",
+			[{ itemId: id, before: null, after: items[0] }],
+		);
+		if (revisionError) {
+			logger.error("Error recording item revisions", {
+				error: revisionError,
+			});
+		}
+	}
+
+	return data<TrashActionResult>(
+		{ data: actionType === "restoreItem" ? items[0] : null, error: null },
+		{ headers },
+	);
+}
+
+export const action = withRequestLog("crud.trash", "action", actionImpl);
+
+/**
+ * Trash route component.
+ * This component lists the deleted items with buttons to restore each one
+ * or delete it permanently.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - Data returned from the loader function, including the deleted items.
+ * @param {Object} props.actionData - Data returned from the action function, including any error message.
+ * @returns {JSX.Element} The rendered trash component.
+ */
+export default function CrudTrash({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const { items } = loaderData;
+	const error = actionData?.error ?? loaderData.error;
+	const navigation = useNavigation();
+	const pendingId =
+		navigation.state === "submitting"
+			? Number(navigation.formData?.get("id"))
+			: null;
+
+	return (
+		<div className="flex flex-col p-8 min-w-3/4 w-[500px] mx-auto">
+			<h1 className="text-2xl">Trash</h1>
+			<div className="text-sm">
+				<Link to="/crud" className="text-blue-500">
+					Back to items
+				</Link>
+			</div>
+
+			{error && <p className="mt-4 text-red-500">{error}</p>}
+
+			<div className="flex flex-col gap-2 mt-4">
+				{items.length === 0 && (
+					<p className="text-sm text-gray-500 text-center">
+						The trash is empty.
+					</p>
+				)}
+				{items.map((item) => (
+					<div
+						key={item.id}
+						className={`border border-gray-300 p-4 rounded-md flex flex-row justify-between ${
+							pendingId === item.id ? "opacity-50" : ""
+						}`}
+					>
+						<div className="flex flex-col gap-2">
+							<div className="font-bold capitalize">{item.name}</div>
+							<div className="text-sm">{item.description}</div>
+							{item.deleted_at && (
+								<div className="text-xs text-gray-500">
+									Deleted <DateTime value={item.deleted_at} />
+								</div>
+							)}
+						</div>
+						<CsrfForm method="post" className="flex flex-col gap-1">
+							<Link
+								to={`/crud/${item.id}/history`}
+								className="text-blue-500 text-[10px] text-center"
+							>
+								History
+							</Link>
+							<input type="hidden" name="id" value={item.id} />
+							<button
+								type="submit"
+								name="actionType"
+								value="restoreItem"
+								disabled={pendingId === item.id}
+								className="bg-blue-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold"
+							>
+								Restore
+							</button>
+							<button
+								type="submit"
+								name="actionType"
+								value="purgeItem"
+								disabled={pendingId === item.id}
+								className="bg-red-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold"
+							>
+								Delete forever
+							</button>
+						</CsrfForm>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -1,121 +1,879 @@
-import { data, Form, Link } from "react-router";
-import { getServerClient } from "~/server";
+import {
+	data,
+	Form,
+	Link,
+	Outlet,
+	redirect,
+	useFetcher,
+	useLocation,
+	useSubmit,
+} from "react-router";
+import { requireUser } from "~/auth";
 import { Route } from "./+types/crud";
-import { useState, useEffect } from "react";
+import type { action as trashAction } from "./crud.trash";
+import { useCallback, useEffect, useState } from "react";
+import {
+	getItemSearchFilter,
+	ITEM_COLUMNS,
+	ITEM_DESCRIPTION_MAX_LENGTH,
+	ITEM_NAME_MAX_LENGTH,
+	ITEM_PAGE_SIZES,
+	itemFetcherKey,
+	parseItemId,
+	parseItemIds,
+	parseItemListParams,
+	saveItemTagsAndAttachments,
+	toItemSearchParams,
+	validateItem,
+	validateItemField,
+	type Item,
+	type ItemFieldErrors,
+	type ItemFields,
+} from "~/items";
+import { recordItemRevisions, type ItemRevisionAction } from "~/revisions";
+import {
+	ATTACHMENT_ACCEPT,
+	getAttachmentFiles,
+	listAttachments,
+	removeAttachments,
+	validateAttachments,
+	type ItemAttachmentLink,
+} from "~/attachments";
+import {
+	ITEM_TAG_NAMES_COLUMN,
+	listItemTags,
+	listTags,
+	parseTags,
+	toTagNamesFilter,
+	validateTags,
+} from "~/tags";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm, CsrfInput } from "~/components/csrf-form";
+import { logger } from "~/logger";
+import { getPublicConfig } from "~/config";
+import { errorData, toAppError } from "~/errors";
+import { useItemChanges } from "~/realtime";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Values shown in the add/edit form. An id of 0 means a new item, and
+ * `tags` is the comma-separated tag input.
+ */
+type ItemFormValues = ItemFields & { id: number; tags?: string };
+
+/**
+ * How many items a batch operation changed.
+ */
+type BulkResult = { succeeded: number; failed: number };
+
+/**
+ * Result returned by the CRUD action and the edit action in
+ * `crud.$id.edit`. A successful add or edit can still carry an `error` when
+ * the item was saved but its tags or attachments weren't; failures carry
+ * the field errors and submitted values instead.
+ */
+export type ItemActionResult =
+	| {
+			success: true;
+			data: Item | null;
+			error: string | null;
+			bulk?: BulkResult;
+	  }
+	| {
+			success: false;
+			data: null;
+			error: string | null;
+			bulk?: BulkResult;
+			fieldErrors?: ItemFieldErrors & { tags?: string; attachments?: string };
+			values?: ItemFormValues;
+	  };
+
+/**
+ * Combines the error and field errors of an action result into one message.
+ *
+ * @param {ItemActionResult} result - The action result.
+ * @returns {string | null} The message, or null if the action succeeded.
+ */
+const getActionErrorMessage = (result: ItemActionResult) =>
+	result.error ??
+	(result.success
+		? null
+		: Object.values(result.fieldErrors ?? {}).join(". ") || null);
 
 /**
  * Loader function to fetch items from the server.
  *
- * This function retrieves a list of items from the Supabase database
- * and returns them along with any potential errors.
+ * This function retrieves one page of the signed-in user's items from the
+ * Supabase database, leaving out items in the trash, and returns them along with any potential errors.
+ * The `q`, `tag`, `sort`, `order`, `page` and `pageSize` search parameters
+ * control searching, tag filtering, sorting and paging. Anonymous visitors are redirected to the
+ * login page. The Supabase URL and anon key are included so the page can
+ * subscribe to live changes, each item's attachments are listed with
+ * signed download URLs, and the user's tags are included for autocomplete.
  *
  * @param {Route.LoaderArgs} args - The loader arguments containing the request.
- * @returns {Promise<{ items: Array<Object>, error: string | null }>} An object containing the items and any error message.
+ * @returns {Promise<{ items: Array<Item>, attachments: Record<number, Array<ItemAttachmentLink>>, itemTags: Record<number, Array<string>>, tags: Array<string>, error: string | null, total: number, pageCount: number, params: ItemListParams, env: Object }>} An object containing the page of items with their attachments and tags, the user's tags, paging details, any error message and the browser environment.
  */
-export const loader = async ({ request }: Route.LoaderArgs) => {
-	const sbServerClient = getServerClient(request);
-	const { data: items, error } = await sbServerClient.client
+const loaderImpl = async ({ request }: Route.LoaderArgs) => {
+	const sbServerClient = await requireUser(request);
+	const url = new URL(request.url);
+	const params = parseItemListParams(url.searchParams);
+	const from = (params.page - 1) * params.pageSize;
+
+	let query = sbServerClient.client
 		.from("items")
-		.select("*");
-	return data({ items, error }, { headers: sbServerClient.headers });
+		.select(ITEM_COLUMNS, { count: "exact" })
+		.eq("user_id", sbServerClient.user.id)
+		.is("deleted_at", null);
+
+	if (params.q) {
+		query = query.or(getItemSearchFilter(params.q));
+	}
+
+	if (params.tags.length > 0) {
+		query = query.contains(
+			ITEM_TAG_NAMES_COLUMN,
+			toTagNamesFilter(params.tags),
+		);
+	}
+
+	const {
+		data: items,
+		error,
+		count,
+	} = await query
+		.order(params.sort, { ascending: params.order === "asc" })
+		.order("id", { ascending: params.order === "asc" })
+		.range(from, from + params.pageSize - 1);
+
+	// Past the last page PostgREST rejects the range, so go back to the first
+	if (error?.code === "PGRST103") {
+		const searchParams = toItemSearchParams({ ...params, page: 1 });
+		throw redirect(`${url.pathname}?${searchParams}`, {
+			headers: sbServerClient.headers,
+		});
+	}
+
+	const appError = error && toAppError(error);
+	if (error) {
+		logger.error("Error loading items", { error });
+	}
+
+	const total = count ?? 0;
+	const itemIds = (items ?? []).map((item) => item.id);
+	const [attachments, itemTags, tags] = await Promise.all([
+		listAttachments(sbServerClient.client, itemIds),
+		listItemTags(sbServerClient.client, itemIds),
+		listTags(sbServerClient.client, sbServerClient.user.id),
+	]).catch((error) => {
+		logger.error("Error loading tags and attachments", { error });
+		throw errorData(error, sbServerClient.headers);
+	});
+
+	return data(
+		{
+			items,
+			attachments,
+			itemTags,
+			tags,
+			error: appError?.message ?? null,
+			total,
+			pageCount: Math.max(1, Math.ceil(total / params.pageSize)),
+			params,
+			env: getPublicConfig(),
+		},
+		{ status: appError?.status, headers: sbServerClient.headers },
+	);
+};
+
+export const loader = withRequestLog("crud", "loader", loaderImpl);
+
+/**
+ * Records revisions for a change made through the action. A failure is
+ * logged but doesn't fail the change itself.
+ *
+ * @param {Awaited<ReturnType<typeof requireUser>>} sbServerClient - The authenticated server client.
+ * @param {ItemRevisionAction} revisionAction - The kind of change.
+ * @param {Array<{ itemId: number, before: Item | null, after: Item | null }>} changes - The items before and after the change.
+ */
+const recordRevisions = async (
+	sbServerClient: Awaited<ReturnType<typeof requireUser>>,
+	revisionAction: ItemRevisionAction,
+	changes: Parameters<typeof recordItemRevisions>[3],
+) => {
+	const error = await recordItemRevisions(
+		sbServerClient.client,
+		sbServerClient.user.id,
+		revisionAction,
+		changes,
+	);
+	if (error) {
+		logger.error("Error recording item revisions", { error });
+	}
 };
 
 /**
  * Action function to handle adding and deleting items.
  *
  * This function processes form submissions for adding new items
- * and deleting existing items from the Supabase database.
+ * and deleting existing items from the Supabase database, one at a time or
+ * in bulk (`bulkDelete` and `bulkUpdate` take a list of `ids`). Deleted
+ * items are moved to the trash, where they can be restored. New items are
+ * owned by the signed-in user, and deletes of items owned by someone else
+ * are refused with a 404, as row level security hides them like missing
+ * items. Edits are handled by the `crud.$id.edit` route. Every change is
+ * recorded in the
+ * item's revision history. Anonymous visitors are redirected
+ * to the login page.
+ *
+ * Submitted fields are validated with the shared item schema; invalid
+ * submissions return a 400 with per-field errors and the submitted values.
+ * Supabase errors are translated with `toAppError`, so failures respond
+ * with a matching status and a message that can be shown to the user.
+ * Adds are multipart submissions that may carry comma-separated
+ * `tags` and `attachments`; both are saved once the item is, with files
+ * uploaded to Supabase Storage. `deleteAttachment` removes one attachment.
  *
  * @param {Route.ActionArgs} args - The action arguments containing the request.
- * @returns {Promise<{ data: any, error: string | null }>} An object containing the result of the action and any error message.
+ * @returns {Promise<ItemActionResult>} An object containing the result of the action, any error message, and any field errors.
  */
-export const action = async ({ request }: Route.ActionArgs) => {
-	const sbServerClient = getServerClient(request);
+const actionImpl = async ({ request }: Route.ActionArgs) => {
+	const sbServerClient = await requireUser(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
 
 	try {
-		const formData = await request.formData();
 		const actionType = formData.get("actionType");
 
-		console.log("Action Type:", actionType); // Debugging log
+		logger.debug("Handling item action", { actionType });
 
 		if (actionType === "addItem") {
-			const name = formData.get("name");
-			const description = formData.get("description");
-			console.log("Adding Item:", { name, description }); // Debugging log
+			const result = validateItem(formData);
+			const tags = parseTags(formData.get("tags"));
+			const tagsError = validateTags(tags);
+			const files = getAttachmentFiles(formData);
+			const attachmentsError = validateAttachments(files);
+			if (!result.success || tagsError || attachmentsError) {
+				return data<ItemActionResult>(
+					{
+						success: false,
+						data: null,
+						error: null,
+						fieldErrors: {
+							...(!result.success && result.fieldErrors),
+							...(tagsError && { tags: tagsError }),
+							...(attachmentsError && { attachments: attachmentsError }),
+						},
+						values: {
+							id: 0,
+							...(result.success ? result.data : result.values),
+							tags: tags.join(", "),
+						},
+					},
+					{ status: 400, headers: sbServerClient.headers },
+				);
+			}
+
+			const { name, description } = result.data;
 
-			const { data, error } = await sbServerClient.client
+			const { data: items, error } = await sbServerClient.client
 				.from("items")
 				.insert({
 					name,
 					description,
+					user_id: sbServerClient.user.id,
 				})
-				.select("*");
+				.select(ITEM_COLUMNS);
 
 			if (error) {
-				console.error("Error adding item:", error); // Debugging log
-				return data({ error: error.message });
+				logger.error("Error adding item", { error });
+				const { status, message } = toAppError(error);
+				return data<ItemActionResult>(
+					{
+						success: false,
+						data: null,
+						error: message,
+						values: { id: 0, name, description },
+					},
+					{ status, headers: sbServerClient.headers },
+				);
 			}
 
-			return data(
-				{ data: data?.length > 0 ? data[0] : null },
+			const item = items?.length > 0 ? items[0] : null;
+			if (item) {
+				await recordRevisions(sbServerClient, "create", [
+					{ itemId: item.id, before: null, after: item },
+				]);
+			}
+
+			return data<ItemActionResult>(
+				{
+					success: true,
+					data: item,
+					error: item
+						? await saveItemTagsAndAttachments(
+								sbServerClient.client,
+								sbServerClient.user.id,
+								item.id,
+								tags,
+								files,
+						  )
+						: null,
+				},
 				{ headers: sbServerClient.headers },
 			);
 		}
 
-		if (actionType === "editItem") {
-			const id = formData.get("id");
-			const name = formData.get("name");
-			const description = formData.get("description");
+		if (actionType === "deleteItem") {
+			const id = parseItemId(formData.get("id"));
+			if (id === null) {
+				return data<ItemActionResult>(
+					{ success: false, data: null, error: "Invalid item id" },
+					{ status: 400, headers: sbServerClient.headers },
+				);
+			}
 
-			const { data, error } = await sbServerClient.client
+			// Move the item to the trash instead of removing the row. Items
+			// that are missing, already in the trash or owned by someone
+			// else don't match
+			const { data: items, error } = await sbServerClient.client
 				.from("items")
-				.update({ name, description })
+				.update({ deleted_at: new Date().toISOString() })
 				.eq("id", id)
-				.select("*");
+				.eq("user_id", sbServerClient.user.id)
+				.is("deleted_at", null)
+				.select(ITEM_COLUMNS);
+
+			if (error) {
+				logger.error("Error deleting item", { error });
+				const { status, message } = toAppError(error);
+				return data<ItemActionResult>(
+					{ success: false, data: null, error: message },
+					{ status, headers: sbServerClient.headers },
+				);
+			}
+
+			if (!items?.length) {
+				return data<ItemActionResult>(
+					{ success: false, data: null, error: "Item not found" },
+					{ status: 404, headers: sbServerClient.headers },
+				);
+			}
+
+			// Moving to the trash doesn't change the recorded fields, so the
+			// updated row is also the item before the change
+			await recordRevisions(sbServerClient, "delete", [
+				{ itemId: id, before: items[0], after: null },
+			]);
+
+			return data<ItemActionResult>(
+				{ success: true, data: items[0], error: null },
+				{ headers: sbServerClient.headers },
+			);
+		}
+
+		if (actionType === "deleteAttachment") {
+			const attachmentId = parseItemId(formData.get("attachmentId"));
+			if (attachmentId === null) {
+				return data<ItemActionResult>(
+					{ success: false, data: null, error: "Invalid attachment id" },
+					{ status: 400, headers: sbServerClient.headers },
+				);
+			}
+
+			// Row level security limits this to the user's own attachments
+			const error = await removeAttachments(sbServerClient.client, {
+				id: attachmentId,
+			});
 
 			if (error) {
-				console.error("Error editing item:", error); // Debugging log
-				return data({ error: error.message });
+				return data<ItemActionResult>(
+					{ success: false, data: null, error: error.message },
+					{ status: error.status, headers: sbServerClient.headers },
+				);
 			}
 
-			return data(
-				{ data: data?.length > 0 ? data[0] : null },
+			return data<ItemActionResult>(
+				{ success: true, data: null, error: null },
 				{ headers: sbServerClient.headers },
 			);
 		}
 
-		if (actionType === "deleteItem") {
-			const id = formData.get("id");
-			const { data, error } = await sbServerClient.client
+		if (actionType === "bulkDelete" || actionType === "bulkUpdate") {
+			const ids = parseItemIds(formData.getAll("ids"));
+			if (!ids || ids.length === 0) {
+				return data<ItemActionResult>(
+					{ success: false, data: null, error: "Select at least one item" },
+					{ status: 400, headers: sbServerClient.headers },
+				);
+			}
+
+			let query;
+			if (actionType === "bulkDelete") {
+				query = sbServerClient.client
+					.from("items")
+					.update({ deleted_at: new Date().toISOString() });
+			} else {
+				const field = formData.get("field");
+				const value = formData.get("value");
+				const text = typeof value === "string" ? value.trim() : "";
+				if (field !== "name" && field !== "description") {
+					return data<ItemActionResult>(
+						{ success: false, data: null, error: "Choose a field to update" },
+						{ status: 400, headers: sbServerClient.headers },
+					);
+				}
+
+				const fieldError = validateItemField(field, text);
+				if (fieldError) {
+					return data<ItemActionResult>(
+						{ success: false, data: null, error: fieldError },
+						{ status: 400, headers: sbServerClient.headers },
+					);
+				}
+
+				query = sbServerClient.client.from("items").update({ [field]: text });
+			}
+
+			// Read the rows first so their revisions have the previous values
+			const { data: before, error: beforeError } = await sbServerClient.client
 				.from("items")
-				.delete()
-				.eq("id", id);
+				.select(ITEM_COLUMNS)
+				.in("id", ids)
+				.eq("user_id", sbServerClient.user.id)
+				.is("deleted_at", null);
+
+			if (beforeError) {
+				logger.error("Error fetching items", { error: beforeError });
+				const { status, message } = toAppError(beforeError);
+				return data<ItemActionResult>(
+					{
+						success: false,
+						data: null,
+						error: message,
+						bulk: { succeeded: 0, failed: ids.length },
+					},
+					{ status, headers: sbServerClient.headers },
+				);
+			}
+
+			// Rows the user doesn't own or that are already in the trash are
+			// filtered out and count as failures
+			const { data: changed, error } = await query
+				.in("id", ids)
+				.eq("user_id", sbServerClient.user.id)
+				.is("deleted_at", null)
+				.select(ITEM_COLUMNS);
 
 			if (error) {
-				console.error("Error deleting item:", error); // Debugging log
-				return data({ error: error.message });
+				logger.error("Error updating items", { error });
+				const { status, message } = toAppError(error);
+				return data<ItemActionResult>(
+					{
+						success: false,
+						data: null,
+						error: message,
+						bulk: { succeeded: 0, failed: ids.length },
+					},
+					{ status, headers: sbServerClient.headers },
+				);
 			}
 
-			return data({ data: null }, { headers: sbServerClient.headers });
+			await recordRevisions(
+				sbServerClient,
+				actionType === "bulkDelete" ? "delete" : "update",
+				(changed ?? []).map((item) => ({
+					itemId: item.id,
+					before: before?.find((other) => other.id === item.id) ?? null,
+					after: actionType === "bulkDelete" ? null : item,
+				})),
+			);
+
+			const succeeded = changed?.length ?? 0;
+			return data<ItemActionResult>(
+				{
+					success: true,
+					data: null,
+					error: null,
+					bulk: { succeeded, failed: ids.length - succeeded },
+				},
+				{ headers: sbServerClient.headers },
+			);
 		}
 
-		return data(
-			{ data: null, error: "Invalid action type" },
-			{ headers: sbServerClient.headers },
+		return data<ItemActionResult>(
+			{ success: false, data: null, error: "Invalid action type" },
+			{ status: 400, headers: sbServerClient.headers },
 		);
 	} catch (error) {
-		console.error("An error occurred:", error); // Debugging log
-		return data(
-			{ data: null, error: "An error occurred" },
-			{ headers: sbServerClient.headers },
+		logger.error("Error handling item action", { error });
+		const { status, message } = toAppError(error);
+		return data<ItemActionResult>(
+			{ success: false, data: null, error: message },
+			{ status, headers: sbServerClient.headers },
 		);
 	}
 };
 
+export const action = withRequestLog("crud", "action", actionImpl);
+
+/**
+ * Fetcher key and form id used by the batch operations.
+ */
+const BULK_FETCHER_KEY = "bulk-items";
+const BULK_FORM_ID = "bulk-form";
+
+/**
+ * A link to download an attachment, with a button to remove it. The link
+ * is hidden while the removal is pending.
+ *
+ * @param {Object} props - The component props.
+ * @param {ItemAttachmentLink} props.attachment - The attachment with its signed URL.
+ * @returns {JSX.Element | null} The rendered link, or null while it is being removed.
+ */
+function AttachmentLink({ attachment }: { attachment: ItemAttachmentLink }) {
+	const fetcher = useFetcher<typeof action>();
+
+	if (fetcher.state !== "idle") {
+		return null;
+	}
+
+	return (
+		<li className="flex flex-row gap-2 items-center">
+			{attachment.url ? (
+				<a
+					href={attachment.url}
+					target="_blank"
+					rel="noreferrer"
+					className="text-blue-500 underline"
+				>
+					{attachment.name}
+				</a>
+			) : (
+				<span>{attachment.name}</span>
+			)}
+			<fetcher.Form method="post">
+				<CsrfInput />
+				<input type="hidden" name="actionType" value="deleteAttachment" />
+				<input type="hidden" name="attachmentId" value={attachment.id} />
+				<button
+					type="submit"
+					aria-label={`Remove ${attachment.name}`}
+					className="text-red-500"
+				>
+					×
+				</button>
+			</fetcher.Form>
+			{fetcher.data?.error && (
+				<span className="text-red-500">{fetcher.data.error}</span>
+			)}
+		</li>
+	);
+}
+
+/**
+ * A single row in the items list.
+ *
+ * The name links to the item's page, and Edit opens its edit form. Edits
+ * (submitted from the edit form with this row's fetcher key) and deletes
+ * are shown immediately: pending edits render the submitted values
+ * with pending styling, and pending deletes hide the row. If the action
+ * fails the row falls back to the loader data and shows the error inline.
+ *
+ * The checkbox belongs to the bulk actions form, so checked rows are
+ * submitted as `ids` with a batch operation.
+ *
+ * @param {Object} props - The component props.
+ * @param {Item} props.item - The item to render.
+ * @param {ItemAttachmentLink[]} props.attachments - The item's attachments.
+ * @param {string[]} props.tags - The item's tag names.
+ * @param {Function} props.getTagLink - Builds the link that filters the list by a tag.
+ * @param {string} props.search - The list's search string, kept on the item links so closing an item returns to the same page.
+ * @param {boolean} props.selected - Whether the row is selected for a batch operation.
+ * @param {Function} props.onDelete - Called when the Delete button is clicked.
+ * @param {Function} props.onSelect - Called with the item id when the checkbox is toggled.
+ * @returns {JSX.Element | null} The rendered row, or null while a delete is pending.
+ */
+function ItemRow({
+	item,
+	attachments,
+	tags,
+	getTagLink,
+	search,
+	selected,
+	onDelete,
+	onSelect,
+}: {
+	item: Item;
+	attachments: ItemAttachmentLink[];
+	tags: string[];
+	getTagLink: (tag: string) => string;
+	search: string;
+	selected: boolean;
+	onDelete: (item: Item) => void;
+	onSelect: (id: number) => void;
+}) {
+	const fetcher = useFetcher<typeof action>({ key: itemFetcherKey(item.id) });
+	const pendingAction = fetcher.formData?.get("actionType");
+
+	if (pendingAction === "deleteItem") {
+		return null;
+	}
+
+	const isSaving = pendingAction === "editItem";
+	const name = isSaving ? String(fetcher.formData?.get("name")) : item.name;
+	const description = isSaving
+		? String(fetcher.formData?.get("description"))
+		: item.description;
+	const tagNames = isSaving
+		? parseTags(fetcher.formData?.get("tags") ?? null)
+		: tags;
+	const fetcherError =
+		fetcher.state === "idle" && fetcher.data
+			? getActionErrorMessage(fetcher.data)
+			: null;
+
+	return (
+		<div
+			className={`border border-gray-300 p-4 rounded-md flex flex-row justify-between ${
+				isSaving ? "opacity-50" : ""
+			}`}
+			aria-busy={isSaving}
+		>
+			<input
+				type="checkbox"
+				form={BULK_FORM_ID}
+				name="ids"
+				value={item.id}
+				checked={selected}
+				onChange={() => onSelect(item.id)}
+				aria-label={`Select ${item.name}`}
+				className="self-start mt-1 mr-2"
+			/>
+			<div className="flex flex-col gap-2 flex-1">
+				<Link
+					to={`/crud/${item.id}${search}`}
+					className="font-bold capitalize hover:underline"
+				>
+					{name}
+				</Link>
+				<div className="text-sm">{description}</div>
+				{tagNames.length > 0 && (
+					<ul className="flex flex-row flex-wrap gap-1" aria-label="Tags">
+						{tagNames.map((tag) => (
+							<li key={tag}>
+								<Link
+									to={getTagLink(tag)}
+									className="bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full"
+								>
+									{tag}
+								</Link>
+							</li>
+						))}
+					</ul>
+				)}
+				{attachments.length > 0 && (
+					<ul className="flex flex-col gap-1 text-xs" aria-label="Attachments">
+						{attachments.map((attachment) => (
+							<AttachmentLink key={attachment.id} attachment={attachment} />
+						))}
+					</ul>
+				)}
+				{fetcherError && <p className="text-red-500 text-sm">{fetcherError}</p>}
+			</div>
+			<div className="flex flex-col">
+				<Link
+					to={`/crud/${item.id}/edit${search}`}
+					aria-disabled={isSaving || undefined}
+					className={`bg-yellow-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold text-center ${
+						isSaving ? "pointer-events-none opacity-50" : ""
+					}`}
+				>
+					Edit
+				</Link>
+				<Link
+					to={`/crud/${item.id}/history`}
+					className="text-blue-500 text-[10px] text-center"
+				>
+					History
+				</Link>
+				<fetcher.Form method="post" onSubmit={() => onDelete(item)}>
+					<CsrfInput />
+					<input type="hidden" name="id" value={item.id} />
+					<input type="hidden" name="actionType" value="deleteItem" />
+					<button
+						type="submit"
+						className="bg-red-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold"
+					>
+						Delete
+					</button>
+				</fetcher.Form>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Placeholder row for an item that is being added.
+ *
+ * Renders the submitted values with pending styling until the action and
+ * loader revalidation finish, then removes itself. Either the new item is
+ * in the list by then, or the add form shows why it was rejected.
+ *
+ * @param {Object} props - The component props.
+ * @param {string} props.fetcherKey - The key of the fetcher that submitted the item.
+ * @param {Function} props.onSettled - Called with the key once the row can be removed.
+ * @returns {JSX.Element | null} The rendered row, or null once the add finished.
+ */
+function PendingItemRow({
+	fetcherKey,
+	onSettled,
+}: {
+	fetcherKey: string;
+	onSettled: (fetcherKey: string) => void;
+}) {
+	const fetcher = useFetcher<typeof action>({ key: fetcherKey });
+	const isDone = fetcher.state === "idle" && fetcher.data !== undefined;
+
+	// Once the add finished this placeholder is no longer needed
+	useEffect(() => {
+		if (isDone) {
+			onSettled(fetcherKey);
+		}
+	}, [isDone, fetcherKey, onSettled]);
+
+	if (isDone || !fetcher.formData) {
+		return null;
+	}
+
+	return (
+		<div
+			className="border border-gray-300 opacity-50 p-4 rounded-md flex flex-row justify-between"
+			aria-busy
+		>
+			<div className="flex flex-col gap-2">
+				<div className="font-bold capitalize">
+					{String(fetcher.formData.get("name") ?? "")}
+				</div>
+				<div className="text-sm">
+					{String(fetcher.formData.get("description") ?? "")}
+				</div>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * How long the undo notice stays up after a delete, in milliseconds.
+ */
+const UNDO_TIMEOUT = 10000;
+
+/**
+ * Notice shown after an item was moved to the trash, with a button to
+ * restore it.
+ *
+ * Reads the delete through the row's fetcher key, so nothing is shown while
+ * the delete is pending and the notice goes away if it fails. The restore is
+ * posted to the `/crud/trash` action.
+ *
+ * @param {Object} props - The component props.
+ * @param {Item} props.item - The deleted item.
+ * @param {Function} props.onDismiss - Called with the item id once the notice can be removed.
+ * @returns {JSX.Element | null} The rendered notice, or null while the delete is pending.
+ */
+function UndoToast({
+	item,
+	onDismiss,
+}: {
+	item: Item;
+	onDismiss: (id: number) => void;
+}) {
+	const deleteFetcher = useFetcher<typeof action>({
+		key: itemFetcherKey(item.id),
+	});
+	const undoFetcher = useFetcher<typeof trashAction>();
+	const isDeleted =
+		deleteFetcher.state === "idle" && !!deleteFetcher.data?.data?.deleted_at;
+	const deleteFailed =
+		deleteFetcher.state === "idle" && !!deleteFetcher.data?.error;
+	const isRestored =
+		undoFetcher.state === "idle" &&
+		!!undoFetcher.data &&
+		!undoFetcher.data.error;
+
+	useEffect(() => {
+		if (deleteFailed || isRestored) {
+			onDismiss(item.id);
+		}
+	}, [deleteFailed, isRestored, item.id, onDismiss]);
+
+	// Hide the notice after a while unless an undo is in flight
+	useEffect(() => {
+		if (!isDeleted || undoFetcher.state !== "idle") {
+			return;
+		}
+		const timeout = setTimeout(() => onDismiss(item.id), UNDO_TIMEOUT);
+		return () => clearTimeout(timeout);
+	}, [isDeleted, undoFetcher.state, item.id, onDismiss]);
+
+	if (!isDeleted) {
+		return null;
+	}
+
+	return (
+		<div
+			role="status"
+			className="flex flex-row justify-between items-center gap-2 bg-gray-800 text-white text-sm p-2 rounded-md"
+		>
+			<span>
+				Moved <span className="font-bold">{item.name}</span> to the trash.
+				{undoFetcher.data?.error && (
+					<span className="text-red-300"> {undoFetcher.data.error}</span>
+				)}
+			</span>
+			<undoFetcher.Form method="post" action="/crud/trash">
+				<CsrfInput />
+				<input type="hidden" name="id" value={item.id} />
+				<button
+					type="submit"
+					name="actionType"
+					value="restoreItem"
+					disabled={undoFetcher.state !== "idle"}
+					className="underline disabled:opacity-50"
+				>
+					{undoFetcher.state !== "idle" ? "Restoring..." : "Undo"}
+				</button>
+			</undoFetcher.Form>
+		</div>
+	);
+}
+
 /**
  * Crud route component.
  * This component displays the CRUD page of the application.
- * It includes a form for adding items and a list of items.
+ * It includes a form for adding items and a list of items. Each item has
+ * its own page at `/crud/:id` and an edit form at `/crud/:id/edit`; both
+ * are nested routes rendered above the list through the `Outlet`.
+ *
+ * With JavaScript enabled, adds, edits and deletes are submitted through
+ * fetchers and shown optimistically, so several can be in flight at once.
+ * The add form keeps its values until the add succeeds, and shows the
+ * server's field errors next to the fields if it is rejected.
+ * Without JavaScript the forms post normally and errors come back through
+ * `actionData`.
+ *
+ * Deleted items go to the trash, and an undo notice is shown for a few
+ * seconds after each delete.
+ *
+ * Rows can be selected with their checkboxes and deleted or updated in one
+ * request. Selected rows disappear while a batch delete is pending, and the
+ * result reports how many items succeeded or failed.
+ *
+ * Items can be tagged from the form, with the user's existing tags offered
+ * as suggestions. Clicking a tag chip filters the list by that tag.
+ *
+ * Changes made elsewhere (another tab or teammate) arrive through Supabase
+ * Realtime and are merged into the list.
  *
  * @param {Object} props - The component props.
  * @param {Object} props.loaderData - Data returned from the loader function, including the list of items.
@@ -123,38 +881,210 @@ export const action = async ({ request }: Route.ActionArgs) => {
  * @returns {JSX.Element} The rendered CRUD component.
  */
 export default function Crud({ loaderData, actionData }: Route.ComponentProps) {
-	const items = loaderData?.items;
-	const error = (actionData as { error: string | null })?.error;
+	const { items, attachments, itemTags, tags, total, pageCount, params, env } =
+		loaderData;
+	const submit = useSubmit();
+	const { search } = useLocation();
+
+	// Fetcher key of the latest add. Its result decides whether the form is
+	// cleared or shows the errors next to the fields
+	const [addFetcherKey, setAddFetcherKey] = useState<string>();
+	const addFetcher = useFetcher<typeof action>({ key: addFetcherKey });
+	const isAdding = !!addFetcherKey && addFetcher.state !== "idle";
+	const addResult =
+		addFetcherKey && addFetcher.state === "idle" ? addFetcher.data : undefined;
+
+	const error = addResult?.error ?? actionData?.error ?? loaderData.error;
+	// Rejected adds are shown in the form, from the add fetcher or from the
+	// action data when the form was posted without JavaScript
+	const failure = addFetcherKey
+		? addResult?.success === false
+			? addResult
+			: undefined
+		: actionData?.success === false && actionData.values
+		? actionData
+		: undefined;
+	const fieldErrors = failure?.fieldErrors;
+
+	// State to manage the item being added, seeded with the submitted values
+	// when the action rejected them
+	const [currentItem, setCurrentItem] = useState<ItemFormValues | null>(
+		failure?.values ?? null,
+	);
 
-	// State to manage the current item being edited or created
-	const [currentItem, setCurrentItem] = useState<{
-		id: number;
-		name: string;
-		description: string;
-	} | null>(null);
+	// Remounted to clear the file input once an item was added
+	const [addFormKey, setAddFormKey] = useState(0);
 
-	// State to determine if we are in edit mode
-	const [isEditing, setIsEditing] = useState(false);
+	// Fetcher keys of items that are being added
+	const [pendingAdds, setPendingAdds] = useState<string[]>([]);
 
-	// Effect to reset the form when actionData changes
+	// Clear the form once the item was added, or bring back the submitted
+	// values when the action rejected them
 	useEffect(() => {
-		if (actionData && !actionData.error) {
-			// Reset the current item if the action was successful
+		if (addResult?.success) {
 			setCurrentItem(null);
-			setIsEditing(false); // Reset edit mode
+			setAddFormKey((prev) => prev + 1);
+		} else if (addResult?.values) {
+			setCurrentItem(addResult.values);
+		}
+	}, [addResult]);
+
+	// Items from the loader with live changes merged in
+	const [liveItems, setLiveItems] = useState(items ?? []);
+	useEffect(() => {
+		setLiveItems(items ?? []);
+	}, [items]);
+
+	// Items deleted from this page that can still be restored from the notice
+	const [deletedItems, setDeletedItems] = useState<Item[]>([]);
+
+	// Ids of the rows selected for a batch operation
+	const [selectedIds, setSelectedIds] = useState<number[]>([]);
+	const bulkFetcher = useFetcher<typeof action>({ key: BULK_FETCHER_KEY });
+	const bulkResult =
+		bulkFetcher.state === "idle" ? bulkFetcher.data : undefined;
+
+	// Clear the selection once a batch operation went through
+	useEffect(() => {
+		if (bulkResult?.bulk) {
+			setSelectedIds([]);
+		}
+	}, [bulkResult]);
+
+	// Drop selected ids that are no longer on the page
+	useEffect(() => {
+		setSelectedIds((prev) =>
+			prev.filter((id) => liveItems.some((item) => item.id === id)),
+		);
+	}, [liveItems]);
+
+	// Rows hidden while a batch delete is pending
+	const pendingBulkDeletes =
+		bulkFetcher.formData?.get("actionType") === "bulkDelete"
+			? bulkFetcher.formData.getAll("ids").map(Number)
+			: [];
+	const visibleItems = liveItems.filter(
+		(item) => !pendingBulkDeletes.includes(item.id),
+	);
+	const allSelected =
+		visibleItems.length > 0 &&
+		visibleItems.every((item) => selectedIds.includes(item.id));
+
+	useItemChanges(env, (payload) => {
+		if (payload.eventType === "INSERT") {
+			// Our own adds are picked up when the loader revalidates, and
+			// new items only belong at the top of an unfiltered first page
+			if (
+				pendingAdds.length > 0 ||
+				params.page !== 1 ||
+				params.q ||
+				params.tags.length > 0
+			) {
+				return;
+			}
+			setLiveItems((prev) =>
+				prev.some((item) => item.id === payload.new.id)
+					? prev
+					: [payload.new, ...prev],
+			);
+			return;
+		}
+
+		if (payload.eventType === "UPDATE" && payload.new.deleted_at) {
+			// Moved to the trash, so treat it like a delete
+			setLiveItems((prev) => prev.filter((item) => item.id !== payload.new.id));
+			return;
 		}
-	}, [actionData]);
 
-	// Function to handle edit button click
-	const handleEditClick = (item: any) => {
-		setCurrentItem(item);
-		setIsEditing(true); // Set edit mode
+		if (payload.eventType === "UPDATE") {
+			setLiveItems((prev) =>
+				prev.map((item) =>
+					item.id === payload.new.id ? { ...item, ...payload.new } : item,
+				),
+			);
+			return;
+		}
+
+		if (payload.eventType === "DELETE") {
+			setLiveItems((prev) => prev.filter((item) => item.id !== payload.old.id));
+		}
+	});
+
+	// Function to remove a settled placeholder row
+	const handleAddSettled = useCallback((fetcherKey: string) => {
+		setPendingAdds((prev) => prev.filter((key) => key !== fetcherKey));
+	}, []);
+
+	// Function to submit the add form through a fetcher. The form keeps its
+	// values and files until the add succeeds
+	const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		const fetcherKey = `item-new-${crypto.randomUUID()}`;
+
+		submit(formData, {
+			method: "post",
+			encType: "multipart/form-data",
+			navigate: false,
+			fetcherKey,
+		});
+
+		setPendingAdds((prev) => [fetcherKey, ...prev]);
+		setAddFetcherKey(fetcherKey);
 	};
 
-	// Function to handle cancel edit
-	const handleCancelEdit = () => {
-		setCurrentItem(null);
-		setIsEditing(false); // Reset edit mode
+	// Function to show the undo notice for a deleted item
+	const handleDelete = useCallback((item: Item) => {
+		setDeletedItems((prev) => [
+			item,
+			...prev.filter((other) => other.id !== item.id),
+		]);
+	}, []);
+
+	// Function to remove an undo notice
+	const handleUndoDismiss = useCallback((id: number) => {
+		setDeletedItems((prev) => prev.filter((item) => item.id !== id));
+	}, []);
+
+	// Function to toggle a row in the selection
+	const handleSelect = useCallback((id: number) => {
+		setSelectedIds((prev) =>
+			prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id],
+		);
+	}, []);
+
+	// Function to select or clear every row on the page
+	const handleSelectAll = () => {
+		setSelectedIds(allSelected ? [] : visibleItems.map((item) => item.id));
+	};
+
+	// Function to build the link that adds a tag to the active filters
+	const getTagLink = useCallback(
+		(tag: string) =>
+			`?${toItemSearchParams({
+				...params,
+				tags: params.tags.includes(tag) ? params.tags : [...params.tags, tag],
+				page: 1,
+			})}`,
+		[params],
+	);
+
+	// Tag suggestions that complete the last tag being typed
+	const tagInput = currentItem?.tags ?? "";
+	const typedTags = parseTags(tagInput);
+	const tagPrefix = tagInput.includes(",")
+		? `${tagInput.slice(0, tagInput.lastIndexOf(",") + 1)} `
+		: "";
+	const tagSuggestions = tags
+		.filter((tag) => !typedTags.includes(tag))
+		.map((tag) => `${tagPrefix}${tag}`);
+
+	// Function to build the export link for the active filters
+	const exportSearchParams = (format: "csv" | "json") => {
+		const searchParams = toItemSearchParams({ ...params, page: 1 });
+		searchParams.delete("pageSize");
+		searchParams.set("format", format);
+		return searchParams;
 	};
 
 	return (
@@ -163,23 +1093,43 @@ export default function Crud({ loaderData, actionData }: Route.ComponentProps) {
 				This is a simple example of a CRUD application using React Router and
 				Supabase.
 			</p>
-			<div className="text-sm">
+			<div className="text-sm flex flex-row gap-4">
 				<Link to="/home" className="text-blue-500">
 					Go Home
 				</Link>
+				<Link to="/crud/import" className="text-blue-500">
+					Import
+				</Link>
+				<Link to="/crud/trash" className="text-blue-500">
+					Trash
+				</Link>
+				<Link
+					to={`/crud/export?${exportSearchParams("csv")}`}
+					reloadDocument
+					className="text-blue-500"
+				>
+					Export CSV
+				</Link>
+				<Link
+					to={`/crud/export?${exportSearchParams("json")}`}
+					reloadDocument
+					className="text-blue-500"
+				>
+					Export JSON
+				</Link>
 			</div>
 			<div className="mt-4">
+				{/* The item page or edit form, when one is open */}
+				<Outlet />
 				<div className="flex flex-col gap-2 border border-gray-300 p-4 rounded-md">
 					{error && <p className="text-red-500">{error}</p>}
-					<Form method="post">
-						<input
-							type="hidden"
-							name="actionType"
-							value={isEditing ? "editItem" : "addItem"}
-						/>
-						{isEditing && (
-							<input type="hidden" name="id" value={currentItem?.id} />
-						)}
+					<CsrfForm
+						key={addFormKey}
+						method="post"
+						encType="multipart/form-data"
+						onSubmit={handleSubmit}
+					>
+						<input type="hidden" name="actionType" value="addItem" />
 						<div className="flex flex-col gap-2 w-[300px]">
 							<input
 								type="text"
@@ -189,14 +1139,23 @@ export default function Crud({ loaderData, actionData }: Route.ComponentProps) {
 								onChange={(e) => {
 									const newName = e.target.value;
 									setCurrentItem((prev) => ({
-										id: prev ? prev.id : 0, // Keep the existing id if editing, otherwise set to 0
+										id: 0,
 										name: newName,
-										description: prev ? prev.description : "", // Maintain previous description if editing
+										description: prev ? prev.description : "",
+										tags: prev?.tags,
 									}));
 								}}
 								className="border border-gray-300 p-1 rounded-md mr-2 flex-1"
+								maxLength={ITEM_NAME_MAX_LENGTH}
+								aria-invalid={fieldErrors?.name ? true : undefined}
+								aria-describedby={fieldErrors?.name ? "name-error" : undefined}
 								required
 							/>
+							{fieldErrors?.name && (
+								<p id="name-error" className="text-red-500 text-sm">
+									{fieldErrors.name}
+								</p>
+							)}
 							<textarea
 								rows={3}
 								name="description"
@@ -205,66 +1164,315 @@ export default function Crud({ loaderData, actionData }: Route.ComponentProps) {
 								onChange={(e) => {
 									const newDescription = e.target.value;
 									setCurrentItem((prev) => ({
-										id: prev ? prev.id : 0, // Keep the existing id if editing, otherwise set to 0
-										name: prev ? prev.name : "", // Maintain previous name if editing
+										id: 0,
+										name: prev ? prev.name : "",
 										description: newDescription,
+										tags: prev?.tags,
 									}));
 								}}
 								className="border border-gray-300 p-1 rounded-md flex-1"
+								maxLength={ITEM_DESCRIPTION_MAX_LENGTH}
+								aria-invalid={fieldErrors?.description ? true : undefined}
+								aria-describedby={
+									fieldErrors?.description ? "description-error" : undefined
+								}
 								required
 							/>
+							{fieldErrors?.description && (
+								<p id="description-error" className="text-red-500 text-sm">
+									{fieldErrors.description}
+								</p>
+							)}
+							<input
+								type="text"
+								name="tags"
+								placeholder="Tags, separated by commas"
+								value={tagInput}
+								onChange={(e) => {
+									const newTags = e.target.value;
+									setCurrentItem((prev) => ({
+										id: 0,
+										name: prev ? prev.name : "",
+										description: prev ? prev.description : "",
+										tags: newTags,
+									}));
+								}}
+								list="tag-suggestions"
+								autoComplete="off"
+								aria-label="Tags"
+								aria-invalid={fieldErrors?.tags ? true : undefined}
+								aria-describedby={fieldErrors?.tags ? "tags-error" : undefined}
+								className="border border-gray-300 p-1 rounded-md flex-1"
+							/>
+							<datalist id="tag-suggestions">
+								{tagSuggestions.map((suggestion) => (
+									<option key={suggestion} value={suggestion} />
+								))}
+							</datalist>
+							{fieldErrors?.tags && (
+								<p id="tags-error" className="text-red-500 text-sm">
+									{fieldErrors.tags}
+								</p>
+							)}
+							<input
+								type="file"
+								name="attachments"
+								multiple
+								accept={ATTACHMENT_ACCEPT}
+								aria-label="Attachments"
+								aria-invalid={fieldErrors?.attachments ? true : undefined}
+								aria-describedby={
+									fieldErrors?.attachments ? "attachments-error" : undefined
+								}
+								className="text-sm"
+							/>
+							{fieldErrors?.attachments && (
+								<p id="attachments-error" className="text-red-500 text-sm">
+									{fieldErrors.attachments}
+								</p>
+							)}
 						</div>
 						<div className="mt-2">
 							<button
 								type="submit"
-								className="bg-blue-500 text-white p-2 rounded-md text-sm"
+								disabled={isAdding}
+								className="bg-blue-500 text-white p-2 rounded-md text-sm disabled:opacity-50"
 							>
-								{isEditing ? "Save Changes" : "Add Item"}
+								{isAdding ? "Adding..." : "Add Item"}
 							</button>
-							{isEditing && (
-								<button
-									type="button"
-									onClick={handleCancelEdit}
-									className="bg-gray-500 text-white p-2 rounded-md text-sm ml-2"
-								>
-									Cancel
-								</button>
-							)}
 						</div>
-					</Form>
+					</CsrfForm>
 				</div>
+				{/* Search and sort, submitted with GET so results can be shared */}
+				<Form method="get" className="flex flex-col gap-2 mt-4 text-sm">
+					{params.tags.map((tag) => (
+						<input key={tag} type="hidden" name="tag" value={tag} />
+					))}
+					<div className="flex flex-row gap-2">
+						<input
+							type="search"
+							name="q"
+							placeholder="Search name or description"
+							defaultValue={params.q}
+							aria-label="Search items"
+							className="border border-gray-300 p-1 rounded-md flex-1"
+						/>
+						<button
+							type="submit"
+							className="bg-blue-500 text-white p-1 px-2 rounded-md text-sm"
+						>
+							Search
+						</button>
+					</div>
+					<div className="flex flex-row gap-2">
+						<select
+							name="sort"
+							defaultValue={params.sort}
+							aria-label="Sort by"
+							className="border border-gray-300 p-1 rounded-md"
+						>
+							<option value="created_at">Created</option>
+							<option value="name">Name</option>
+						</select>
+						<select
+							name="order"
+							defaultValue={params.order}
+							aria-label="Sort order"
+							className="border border-gray-300 p-1 rounded-md"
+						>
+							<option value="desc">Descending</option>
+							<option value="asc">Ascending</option>
+						</select>
+						<select
+							name="pageSize"
+							defaultValue={params.pageSize}
+							aria-label="Items per page"
+							className="border border-gray-300 p-1 rounded-md"
+						>
+							{ITEM_PAGE_SIZES.map((size) => (
+								<option key={size} value={size}>
+									{size} per page
+								</option>
+							))}
+						</select>
+					</div>
+				</Form>
+				{/* Undo notices for recent deletes */}
+				{deletedItems.length > 0 && (
+					<div className="flex flex-col gap-2 mt-4">
+						{deletedItems.map((item) => (
+							<UndoToast
+								key={item.id}
+								item={item}
+								onDismiss={handleUndoDismiss}
+							/>
+						))}
+					</div>
+				)}
+				{/* Batch operations on the selected rows */}
+				<bulkFetcher.Form
+					method="post"
+					id={BULK_FORM_ID}
+					className="flex flex-col gap-2 mt-4 text-sm border border-gray-300 p-2 rounded-md"
+				>
+					<CsrfInput />
+					<div className="flex flex-row gap-2 items-center">
+						<label className="flex flex-row gap-1 items-center">
+							<input
+								type="checkbox"
+								checked={allSelected}
+								onChange={handleSelectAll}
+								disabled={visibleItems.length === 0}
+							/>
+							Select all
+						</label>
+						<span className="text-gray-500">{selectedIds.length} selected</span>
+						<button
+							type="submit"
+							name="actionType"
+							value="bulkDelete"
+							disabled={selectedIds.length === 0}
+							className="bg-red-500 text-white p-1 px-2 rounded-md ml-auto disabled:opacity-50"
+						>
+							Delete selected
+						</button>
+					</div>
+					<div className="flex flex-row gap-2">
+						<select
+							name="field"
+							aria-label="Field to update"
+							className="border border-gray-300 p-1 rounded-md"
+						>
+							<option value="name">Name</option>
+							<option value="description">Description</option>
+						</select>
+						<input
+							type="text"
+							name="value"
+							placeholder="New value"
+							aria-label="New value"
+							maxLength={ITEM_DESCRIPTION_MAX_LENGTH}
+							className="border border-gray-300 p-1 rounded-md flex-1"
+						/>
+						<button
+							type="submit"
+							name="actionType"
+							value="bulkUpdate"
+							disabled={selectedIds.length === 0}
+							className="bg-yellow-500 text-white p-1 px-2 rounded-md disabled:opacity-50"
+						>
+							Update selected
+						</button>
+					</div>
+					{bulkFetcher.state !== "idle" && (
+						<p className="text-gray-500">Working...</p>
+					)}
+					{bulkResult?.bulk && (
+						<p
+							role="status"
+							className={
+								bulkResult.bulk.failed > 0 ? "text-red-500" : "text-green-600"
+							}
+						>
+							{bulkResult.bulk.succeeded} succeeded
+							{bulkResult.bulk.failed > 0 &&
+								`, ${bulkResult.bulk.failed} failed`}
+							{bulkResult.error && ` (${bulkResult.error})`}
+						</p>
+					)}
+					{bulkResult?.error && !bulkResult.bulk && (
+						<p className="text-red-500">{bulkResult.error}</p>
+					)}
+				</bulkFetcher.Form>
+				{/* Active tag filters */}
+				{params.tags.length > 0 && (
+					<div className="flex flex-row flex-wrap gap-1 items-center mt-4 text-sm">
+						<span>Tagged:</span>
+						{params.tags.map((tag) => (
+							<Link
+								key={tag}
+								to={`?${toItemSearchParams({
+									...params,
+									tags: params.tags.filter((other) => other !== tag),
+									page: 1,
+								})}`}
+								aria-label={`Remove the ${tag} filter`}
+								className="bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full"
+							>
+								{tag} ×
+							</Link>
+						))}
+					</div>
+				)}
 				{/* List of items */}
 				<div className="flex flex-col gap-2 mt-4">
-					{items?.map((item: any) => (
-						<div
+					{visibleItems.length === 0 && (
+						<p className="text-sm text-gray-500 text-center">
+							{params.q || params.tags.length > 0
+								? "No items match your search."
+								: "No items yet."}
+						</p>
+					)}
+					{pendingAdds.map((fetcherKey) => (
+						<PendingItemRow
+							key={fetcherKey}
+							fetcherKey={fetcherKey}
+							onSettled={handleAddSettled}
+						/>
+					))}
+					{visibleItems.map((item) => (
+						<ItemRow
 							key={item.id}
-							className="border border-gray-300 p-4 rounded-md flex flex-row justify-between"
-						>
-							<div className="flex flex-col gap-2">
-								<div className="font-bold capitalize">{item.name}</div>
-								<div className="text-sm">{item.description}</div>
-							</div>
-							<div className="flex flex-col">
-								<button
-									onClick={() => handleEditClick(item)}
-									className="bg-yellow-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold"
-								>
-									Edit
-								</button>
-								<Form method="post">
-									<input type="hidden" name="id" value={item.id} />
-									<input type="hidden" name="actionType" value="deleteItem" />
-									<button
-										type="submit"
-										className="bg-red-500 text-white p-1 rounded-md text-[10px] h-6 px-2 font-bold"
-									>
-										Delete
-									</button>
-								</Form>
-							</div>
-						</div>
+							item={item}
+							attachments={attachments[item.id] ?? []}
+							tags={itemTags[item.id] ?? []}
+							getTagLink={getTagLink}
+							search={search}
+							selected={selectedIds.includes(item.id)}
+							onDelete={handleDelete}
+							onSelect={handleSelect}
+						/>
 					))}
 				</div>
+				{/* Pager */}
+				<nav
+					aria-label="Pagination"
+					className="flex flex-row justify-between items-center mt-4 text-sm"
+				>
+					{params.page > 1 ? (
+						<Link
+							to={{
+								search: `?${toItemSearchParams({
+									...params,
+									page: params.page - 1,
+								})}`,
+							}}
+							className="text-blue-500"
+						>
+							Previous
+						</Link>
+					) : (
+						<span className="text-gray-400">Previous</span>
+					)}
+					<span>
+						Page {params.page} of {pageCount} ({total} items)
+					</span>
+					{params.page < pageCount ? (
+						<Link
+							to={{
+								search: `?${toItemSearchParams({
+									...params,
+									page: params.page + 1,
+								})}`,
+							}}
+							className="text-blue-500"
+						>
+							Next
+						</Link>
+					) : (
+						<span className="text-gray-400">Next</span>
+					)}
+				</nav>
 			</div>
 		</div>
 	);
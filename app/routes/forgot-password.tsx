@@ -0,0 +1,210 @@
+/**
+ * Forgot password route for account recovery.
+ *
+ * This module provides a form where users request a password reset email.
+ * The email links back to `/update-password`, where a new password is set.
+ *
+ * @module forgot-password
+ */
+
+import { data, Link, useNavigation, type MetaFunction } from "react-router";
+import { Route } from "./+types/forgot-password";
+import { getServerClient } from "~/server";
+import { requireCsrf } from "~/csrf";
+import {
+	consumeRateLimit,
+	getClientCheck,
+	getRateLimitMessage,
+	PASSWORD_RESET_EMAIL_LIMIT,
+	PASSWORD_RESET_GLOBAL_LIMIT,
+	PASSWORD_RESET_IP_LIMIT,
+	rateLimited,
+	rateLimitHeaders,
+} from "~/rate-limit";
+import { CsrfForm } from "~/components/csrf-form";
+import { toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Forgot Password - New React Router Supabase App" },
+		{
+			name: "description",
+			content: "Reset the password for your account.",
+		},
+	];
+};
+
+/**
+ * Result returned by the forgot password action.
+ */
+type ForgotPasswordActionResult = {
+	sent: boolean;
+	error: string | null;
+	fieldErrors?: { email?: string };
+	values: { email: string };
+};
+
+/**
+ * Handles the action for requesting a password reset email.
+ *
+ * Sends the Supabase recovery email with a link back to `/update-password`.
+ * The confirmation doesn't reveal whether an account exists for the email.
+ * Requests are rate limited per IP address and per email, answering with a
+ * 429 and a `Retry-After` header once a limit is reached.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<ForgotPasswordActionResult>} Whether the email was sent, with any error message.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const sbServerClient = getServerClient(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const email = formData.get("email");
+	const values = { email: typeof email === "string" ? email.trim() : "" };
+
+	if (!values.email) {
+		return data<ForgotPasswordActionResult>(
+			{
+				sent: false,
+				error: null,
+				fieldErrors: { email: "Email is required" },
+				values,
+			},
+			{ status: 400, headers: sbServerClient.headers },
+		);
+	}
+
+	const retryAfter = await consumeRateLimit([
+		getClientCheck(
+			request,
+			PASSWORD_RESET_IP_LIMIT,
+			PASSWORD_RESET_GLOBAL_LIMIT,
+		),
+		[PASSWORD_RESET_EMAIL_LIMIT, values.email],
+	]);
+	if (retryAfter) {
+		return rateLimited<ForgotPasswordActionResult>(
+			{ sent: false, error: getRateLimitMessage(retryAfter), values },
+			retryAfter,
+			sbServerClient.headers,
+		);
+	}
+
+	const { error } = await sbServerClient.client.auth.resetPasswordForEmail(
+		values.email,
+		{ redirectTo: `${new URL(request.url).origin}/update-password` },
+	);
+
+	if (error) {
+		const { status, message } = toAppError(error);
+		return data<ForgotPasswordActionResult>(
+			{ sent: false, error: message, values },
+			{ status, headers: sbServerClient.headers },
+		);
+	}
+
+	return data<ForgotPasswordActionResult>(
+		{ sent: true, error: null, values },
+		{ headers: sbServerClient.headers },
+	);
+}
+
+export const action = withRequestLog("forgot-password", "action", actionImpl);
+
+/**
+ * Passes the `Retry-After` header of rate limited attempts on to the
+ * response.
+ */
+export const headers = rateLimitHeaders;
+
+/**
+ * Forgot password route component.
+ * This component lets users request a password reset email and confirms
+ * once it has been sent.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.actionData - Data returned from the action function, including any error messages.
+ * @returns {JSX.Element} The rendered forgot password component.
+ */
+export default function ForgotPassword({ actionData }: Route.ComponentProps) {
+	const error = actionData?.error;
+	const fieldErrors = actionData?.fieldErrors;
+	const navigation = useNavigation();
+	const isSubmitting = navigation.state === "submitting";
+
+	if (actionData?.sent) {
+		return (
+			<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+				<h1 className="text-2xl">Check your email</h1>
+				<p className="mt-6">
+					If an account exists for {actionData.values.email}, we sent a link to
+					reset your password.
+				</p>
+				<div className="mt-4 text-sm">
+					<Link to="/login" className="text-blue-500">
+						Back to login
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+			<h1 className="text-2xl">
+				React Router v7 Supabase Auth: Forgot Password
+			</h1>
+			<CsrfForm method="post" className="mt-6 ">
+				<fieldset disabled={isSubmitting} className="flex flex-col gap-2">
+					<div className="flex flex-row">
+						<label htmlFor="email" className="min-w-24 ">
+							Email:
+						</label>
+						<input
+							id="email"
+							className="flex-1"
+							type="email"
+							name="email"
+							placeholder="Enter your email"
+							defaultValue={actionData?.values.email}
+							aria-invalid={fieldErrors?.email ? true : undefined}
+							aria-describedby={fieldErrors?.email ? "email-error" : undefined}
+						/>
+					</div>
+					{fieldErrors?.email && (
+						<p id="email-error" className="text-red-600 text-sm ml-24">
+							{fieldErrors.email}
+						</p>
+					)}
+					<div className="flex flex-row-reverse mt-4 gap-4">
+						<button
+							type="submit"
+							className="border rounded px-2.5 py-1 w-32 bg-blue-500 text-white disabled:opacity-50"
+						>
+							{isSubmitting ? "Sending..." : "Send Link"}
+						</button>
+						<Link to="/login">
+							<button
+								type="button"
+								className="border rounded px-2.5 py-1 w-32 border-blue-500 text-blue-500"
+							>
+								Go Back
+							</button>
+						</Link>
+					</div>
+					{error ? (
+						<div className="flex flex-row">
+							<p className="text-red-600 mt-4 ">{error}</p>
+						</div>
+					) : null}
+				</fieldset>
+			</CsrfForm>
+		</div>
+	);
+}
@@ -1,6 +1,12 @@
 import type { Route } from "./+types/home";
 import { getServerClient } from "~/server";
-import { data, Form, Link, redirect } from "react-router";
+import { requireUser } from "~/auth";
+import { data, Link, redirect } from "react-router";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm } from "~/components/csrf-form";
+import { logger } from "~/logger";
+import { toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
 
 /**
  * Meta function for setting the page metadata.
@@ -18,53 +24,61 @@ export function meta({}: Route.MetaArgs) {
 	];
 }
 
+/**
+ * Result returned by the logout action when signing out fails.
+ */
+type HomeActionResult = {
+	error: string;
+};
+
 /**
  * Action function to handle logout.
  *
  * This function processes the logout request and redirects the user to the login page.
  *
  * @param {Route.ActionArgs} args - The action arguments containing the request.
- * @returns {Promise<Response>} A redirect response to the login page.
+ * @returns {Promise<HomeActionResult>} An error message if signing out fails, otherwise redirects to the login page.
  */
-export async function action({ request }: Route.ActionArgs) {
+async function actionImpl({ request }: Route.ActionArgs) {
+	await requireCsrf(request, await request.formData());
 	const sbServerClient = getServerClient(request);
 
 	try {
-		await sbServerClient.client.auth.signOut();
-
-		return redirect("/login", { headers: sbServerClient.headers });
+		const { error } = await sbServerClient.client.auth.signOut();
+		if (error) {
+			throw error;
+		}
 	} catch (error) {
-		console.error(error);
-		return data(
-			{ error: "Failed to logout" },
-			{ headers: sbServerClient.headers },
+		logger.error("Error signing out", { error });
+		const { status, message } = toAppError(error);
+		return data<HomeActionResult>(
+			{ error: message },
+			{ status, headers: sbServerClient.headers },
 		);
 	}
+
+	throw redirect("/login", { headers: sbServerClient.headers });
 }
 
+export const action = withRequestLog("home", "action", actionImpl);
+
 /**
  * Loader function to fetch user data.
  *
- * This function retrieves user information from the server and checks if the user is logged in.
+ * This function retrieves user information from the server, redirecting to the
+ * login page if the user is not logged in.
  *
  * @param {Route.LoaderArgs} args - The loader arguments containing the request.
- * @returns {Promise<{ user: Object | null }>} An object containing user data or null if not logged in.
+ * @returns {Promise<{ user: Object }>} An object containing the signed-in user.
  */
-export async function loader({ request }: Route.LoaderArgs) {
-	const sbServerClient = getServerClient(request);
-	const userResponse = await sbServerClient.client.auth.getUser();
-	if (userResponse.error || !userResponse.data.user) {
-		throw redirect("/login", { headers: sbServerClient.headers });
-	}
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { user, headers } = await requireUser(request);
 
-	return data(
-		{
-			user: userResponse?.data?.user || null,
-		},
-		{ headers: sbServerClient.headers },
-	);
+	return data({ user }, { headers });
 }
 
+export const loader = withRequestLog("home", "loader", loaderImpl);
+
 /**
  * Home route component.
  * This component displays the home page of the application.
@@ -77,22 +91,39 @@ export async function loader({ request }: Route.LoaderArgs) {
  */
 export default function Home({ loaderData, actionData }: Route.ComponentProps) {
 	const user = loaderData?.user;
-	const error = (actionData as { error: string | null })?.error;
+	const error = actionData?.error;
+	const metadata = user?.user_metadata;
+	const username =
+		typeof metadata?.username === "string" ? metadata.username : undefined;
+	const avatarUrl =
+		typeof metadata?.avatar_url === "string" ? metadata.avatar_url : undefined;
 
 	return (
 		<div className="p-8 min-w-3/4 w-[500px] mx-auto">
 			<h1 className="text-2xl">
 				React Router Supabase App with Authentication
 			</h1>
-			<p className="text-lg mt-1">Welcome {user?.email}</p>
-			<Form method="post">
+			<div className="flex flex-row items-center gap-3 mt-1">
+				{avatarUrl && (
+					<img
+						src={avatarUrl}
+						alt=""
+						className="w-10 h-10 rounded-full object-cover"
+					/>
+				)}
+				<p className="text-lg">Welcome {username || user?.email}</p>
+				<Link to="/profile" className="text-sm text-blue-500">
+					Edit profile
+				</Link>
+			</div>
+			<CsrfForm method="post">
 				<button
 					type="submit"
 					className="mt-4 bg-blue-500 text-white p-2 rounded-md text-sm"
 				>
 					Logout
 				</button>
-			</Form>
+			</CsrfForm>
 			{error && <p className="text-red-500">{error}</p>}
 			<hr className="my-4" />
 			<div className="mt-4">
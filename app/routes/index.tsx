@@ -1,6 +1,9 @@
 import type { Route } from "./+types/index";
 import { MetaFunction, redirect } from "react-router";
 import { getServerClient } from "~/server";
+import { logger } from "~/logger";
+import { errorData, toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
 
 /**
  * Meta function for setting the page metadata.
@@ -16,23 +19,30 @@ export const meta: MetaFunction = () => {
 
 /**
  * Loader function to check if the user is logged in and redirect to home if so.
- * Otherwise, redirect to login.
+ * Otherwise, redirect to login. If the session can't be checked, for example
+ * because Supabase is unreachable, the translated error is shown instead of
+ * sending a signed-in user to the login page.
  *
  * @param {Route.LoaderArgs} args - The loader arguments containing the request.
  * @returns {Promise<void>} Redirects to home if the user is logged in.
  */
-export async function loader({ request }: Route.LoaderArgs) {
-	try {
-		const sbServerClient = getServerClient(request);
-		const userResponse = await sbServerClient.client.auth.getUser();
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const sbServerClient = getServerClient(request);
+	const userResponse = await sbServerClient.client.auth.getUser();
 
-		if (!userResponse?.data?.user) {
-			throw redirect("/login", { headers: sbServerClient.headers });
-		} else {
-			throw redirect("/home", { headers: sbServerClient.headers });
-		}
-	} catch (error) {
-		console.error(error);
-		throw redirect("/login", { headers: {} });
+	if (userResponse.data.user) {
+		throw redirect("/home", { headers: sbServerClient.headers });
 	}
+
+	if (
+		userResponse.error &&
+		toAppError(userResponse.error).kind !== "unauthenticated"
+	) {
+		logger.error("Error checking session", { error: userResponse.error });
+		throw errorData(userResponse.error, sbServerClient.headers);
+	}
+
+	throw redirect("/login", { headers: sbServerClient.headers });
 }
+
+export const loader = withRequestLog("index", "loader", loaderImpl);
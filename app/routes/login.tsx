@@ -3,21 +3,47 @@
  *
  * This module provides a login form for users to authenticate their accounts.
  * It handles form submission, user authentication, and redirects upon successful login.
+ * Sign-in happens on the server, so the form works without JavaScript.
+ * Users can also ask for a one-time magic link instead of using a password.
  *
  * @module login
  */
 
 import {
-	Form,
+	data,
 	Link,
 	redirect,
-	useNavigate,
+	useNavigation,
+	useSearchParams,
 	type MetaFunction,
 } from "react-router";
 import { Route } from "./+types/login";
 import { getServerClient } from "~/server";
-import { createBrowserClient } from "@supabase/ssr";
-import { useState } from "react";
+import { getAuthCallbackUrl, getOAuthProviders, safeRedirect } from "~/auth";
+import { OAuthButtons } from "~/components/oauth-buttons";
+import { requireCsrf } from "~/csrf";
+import {
+	consumeRateLimit,
+	getClientCheck,
+	getRateLimitMessage,
+	LOGIN_EMAIL_LIMIT,
+	LOGIN_GLOBAL_LIMIT,
+	LOGIN_IP_LIMIT,
+	rateLimited,
+	rateLimitHeaders,
+	resetRateLimit,
+} from "~/rate-limit";
+import { CsrfForm } from "~/components/csrf-form";
+import { toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Messages for the `error` search parameter set by the auth callback routes.
+ */
+const LOGIN_ERRORS: Record<string, string> = {
+	link_invalid: "Your sign-in link is invalid or has expired.",
+	oauth_failed: "We couldn't start signing in with that provider.",
+};
 
 /**
  * Meta function for setting the page metadata.
@@ -38,77 +64,222 @@ export const meta: MetaFunction = () => {
  * Loader function to check if the user is already logged in.
  *
  * @param {Route.LoaderArgs} args - The loader arguments containing the request.
- * @returns {Promise<void>} Redirects to home if the user is logged in.
+ * @returns {Promise<{ error: string | null, oauthProviders: OAuthProvider[] }>} Redirects to home if the user is logged in, otherwise any error from the auth callback and the enabled OAuth providers.
  */
-export async function loader({ request }: Route.LoaderArgs) {
+async function loaderImpl({ request }: Route.LoaderArgs) {
 	const sbServerClient = getServerClient(request);
 	const userResponse = await sbServerClient.client.auth.getUser();
 
+	const url = new URL(request.url);
+
 	if (userResponse?.data?.user) {
-		throw redirect("/home", { headers: sbServerClient.headers });
+		throw redirect(safeRedirect(url.searchParams.get("redirectTo")), {
+			headers: sbServerClient.headers,
+		});
 	}
 
+	const errorCode = url.searchParams.get("error");
 	return data(
 		{
-			env: {
-				SUPABASE_URL: process.env.SUPABASE_URL!,
-				SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY!,
-			},
+			error: (errorCode && LOGIN_ERRORS[errorCode]) || null,
+			oauthProviders: getOAuthProviders(),
 		},
 		{ headers: sbServerClient.headers },
 	);
 }
 
+export const loader = withRequestLog("login", "loader", loaderImpl);
+
 /**
- * Login route component.
- * This component provides a form for users to log in to their accounts.
- * It handles authentication and redirects upon successful login.
+ * Result returned by the login action when sign-in fails or a magic link
+ * was sent.
+ */
+type LoginActionResult = {
+	magicLinkSent?: boolean;
+	error: string | null;
+	fieldErrors?: { email?: string; password?: string };
+	values: { email: string };
+};
+
+/**
+ * Counts a sign-in attempt against the per-IP and per-email limits.
  *
- * @param {Object} props - The component props.
- * @param {Object} props.loaderData - Data returned from the loader function.
- * @returns {JSX.Element} The rendered login form component.
+ * @param {Request} request - The incoming request.
+ * @param {string} email - The submitted email.
+ * @returns {Promise<number | null>} Seconds until the next attempt is allowed if a limit is exceeded, otherwise null.
  */
-export default function Login({ loaderData }: Route.ComponentProps) {
-	const [error, setError] = useState<string | null>(null);
-	const { env } = loaderData;
-	const navigate = useNavigate();
-
-	/**
-	 * Handles the login form submission.
-	 *
-	 * @param {React.FormEvent<HTMLFormElement>} event - The form event.
-	 */
-	const doLogin = async (event: React.FormEvent<HTMLFormElement>) => {
-		event.preventDefault();
-		const formData = new FormData(event.currentTarget);
-		const dataFields = Object.fromEntries(formData.entries());
-
-		const supabase = createBrowserClient(
-			env.SUPABASE_URL,
-			env.SUPABASE_ANON_KEY,
-		);
-		const { data, error } = await supabase.auth.signInWithPassword({
-			email: dataFields.email as string,
-			password: dataFields.password as string,
+const consumeLoginAttempt = (request: Request, email: string) =>
+	consumeRateLimit([
+		getClientCheck(request, LOGIN_IP_LIMIT, LOGIN_GLOBAL_LIMIT),
+		[LOGIN_EMAIL_LIMIT, email],
+	]);
+
+/**
+ * Handles the action for user login.
+ *
+ * Signs in with the submitted email and password using the server client,
+ * which sets the session cookies on the returned headers, then redirects to
+ * the `redirectTo` form field (or home). When the `intent` is
+ * `magic-link`, a one-time sign-in link is emailed instead; it lands on
+ * `/auth/callback`.
+ *
+ * Attempts are rate limited per IP address and per email; once a limit is
+ * reached the action responds with a 429 and a `Retry-After` header until
+ * the window ends.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<LoginActionResult>} The error, field errors and submitted email. Redirects on success.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const sbServerClient = getServerClient(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const email = formData.get("email");
+	const password = formData.get("password");
+	const redirectTo = safeRedirect(formData.get("redirectTo"));
+	const values = { email: typeof email === "string" ? email.trim() : "" };
+
+	const fieldErrors: LoginActionResult["fieldErrors"] = {};
+	if (!values.email) {
+		fieldErrors.email = "Email is required";
+	}
+
+	if (formData.get("intent") === "magic-link") {
+		if (fieldErrors.email) {
+			return data<LoginActionResult>(
+				{ error: null, fieldErrors, values },
+				{ status: 400, headers: sbServerClient.headers },
+			);
+		}
+
+		const retryAfter = await consumeLoginAttempt(request, values.email);
+		if (retryAfter) {
+			return rateLimited<LoginActionResult>(
+				{ error: getRateLimitMessage(retryAfter), values },
+				retryAfter,
+				sbServerClient.headers,
+			);
+		}
+
+		const { error } = await sbServerClient.client.auth.signInWithOtp({
+			email: values.email,
+			options: {
+				emailRedirectTo: getAuthCallbackUrl(request, redirectTo),
+				shouldCreateUser: false,
+			},
 		});
 
 		if (error) {
-			console.log(error);
-			setError(error.message);
-			return;
+			const { status, message } = toAppError(error);
+			return data<LoginActionResult>(
+				{ error: message, values },
+				{ status, headers: sbServerClient.headers },
+			);
 		}
 
-		if (data.session) {
-			// Redirect to home page on successful login
-			navigate("/home");
-		}
-	};
+		return data<LoginActionResult>(
+			{ magicLinkSent: true, error: null, values },
+			{ headers: sbServerClient.headers },
+		);
+	}
+	if (typeof password !== "string" || !password) {
+		fieldErrors.password = "Password is required";
+	}
+
+	if (Object.keys(fieldErrors).length > 0 || typeof password !== "string") {
+		return data<LoginActionResult>(
+			{ error: null, fieldErrors, values },
+			{ status: 400, headers: sbServerClient.headers },
+		);
+	}
+
+	const retryAfter = await consumeLoginAttempt(request, values.email);
+	if (retryAfter) {
+		return rateLimited<LoginActionResult>(
+			{ error: getRateLimitMessage(retryAfter), values },
+			retryAfter,
+			sbServerClient.headers,
+		);
+	}
+
+	const { error } = await sbServerClient.client.auth.signInWithPassword({
+		email: values.email,
+		password,
+	});
+
+	if (error) {
+		const { status, message } = toAppError(error);
+		return data<LoginActionResult>(
+			{ error: message, values },
+			{ status, headers: sbServerClient.headers },
+		);
+	}
+
+	// A successful sign-in clears the lockout for the email
+	await resetRateLimit(LOGIN_EMAIL_LIMIT, values.email);
+
+	// Redirect to the requested page (or home) on successful login
+	throw redirect(redirectTo, {
+		headers: sbServerClient.headers,
+	});
+}
+
+export const action = withRequestLog("login", "action", actionImpl);
+
+/**
+ * Passes the `Retry-After` header of rate limited attempts on to the
+ * response.
+ */
+export const headers = rateLimitHeaders;
+
+/**
+ * Login route component.
+ * This component provides a form for users to log in to their accounts.
+ * It handles authentication and redirects upon successful login, honoring
+ * the `redirectTo` search parameter set by protected routes.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - Data returned from the loader function, including any auth callback error.
+ * @param {Object} props.actionData - Data returned from the action function, including any error messages.
+ * @returns {JSX.Element} The rendered login form component.
+ */
+export default function Login({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const error = actionData ? actionData.error : loaderData.error;
+	const fieldErrors = actionData?.fieldErrors;
+	const [searchParams] = useSearchParams();
+	const navigation = useNavigation();
+	const isSubmitting = navigation.state === "submitting";
+
+	if (actionData?.magicLinkSent) {
+		return (
+			<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+				<h1 className="text-2xl">Check your inbox</h1>
+				<p className="mt-6">
+					We sent a sign-in link to {actionData.values.email}. Open it on this
+					device to finish logging in.
+				</p>
+				<div className="mt-4 text-sm">
+					<Link to="/login" className="text-blue-500">
+						Back to login
+					</Link>
+				</div>
+			</div>
+		);
+	}
 
 	return (
 		<div className="p-8 min-w-3/4 w-[500px] mx-auto">
 			<h1 className="text-2xl">React Router v7 Supabase Auth: Login</h1>
-			<Form method="post" className="mt-6 " onSubmit={doLogin}>
-				<div className="flex flex-col gap-2">
+			<CsrfForm method="post" className="mt-6 ">
+				<input
+					type="hidden"
+					name="redirectTo"
+					value={searchParams.get("redirectTo") ?? ""}
+				/>
+				<fieldset disabled={isSubmitting} className="flex flex-col gap-2">
 					<div className="flex flex-row">
 						<label htmlFor="email" className="min-w-24 ">
 							Email:
@@ -119,8 +290,16 @@ export default function Login({ loaderData }: Route.ComponentProps) {
 							type="email"
 							name="email"
 							placeholder="Enter your email"
+							defaultValue={actionData?.values.email}
+							aria-invalid={fieldErrors?.email ? true : undefined}
+							aria-describedby={fieldErrors?.email ? "email-error" : undefined}
 						/>
 					</div>
+					{fieldErrors?.email && (
+						<p id="email-error" className="text-red-600 text-sm ml-24">
+							{fieldErrors.email}
+						</p>
+					)}
 					<div className="flex flex-row">
 						<label htmlFor="password" className="min-w-24 ">
 							Password:
@@ -131,16 +310,27 @@ export default function Login({ loaderData }: Route.ComponentProps) {
 							type="password"
 							name="password"
 							placeholder="Enter your password"
+							aria-invalid={fieldErrors?.password ? true : undefined}
+							aria-describedby={
+								fieldErrors?.password ? "password-error" : undefined
+							}
 						/>
 					</div>
+					{fieldErrors?.password && (
+						<p id="password-error" className="text-red-600 text-sm ml-24">
+							{fieldErrors.password}
+						</p>
+					)}
 					<div className="flex flex-row-reverse mt-4 gap-4">
 						<button
 							type="submit"
-							className="border rounded px-2.5 py-1 w-32 bg-blue-500 text-white"
+							className="border rounded px-2.5 py-1 w-32 bg-blue-500 text-white disabled:opacity-50"
 						>
-							Login
+							{isSubmitting ? "Logging in..." : "Login"}
 						</button>
-						<Link to="/register">
+						<Link
+							to={{ pathname: "/register", search: searchParams.toString() }}
+						>
 							<button
 								type="button"
 								className="border rounded px-2.5 py-1 w-32 border-blue-500 text-blue-500"
@@ -149,13 +339,30 @@ export default function Login({ loaderData }: Route.ComponentProps) {
 							</button>
 						</Link>
 					</div>
+					<div className="flex flex-row-reverse justify-between text-sm">
+						<Link to="/forgot-password" className="text-blue-500">
+							Forgot your password?
+						</Link>
+						<button
+							type="submit"
+							name="intent"
+							value="magic-link"
+							className="text-blue-500"
+						>
+							Email me a login link
+						</button>
+					</div>
 					{error ? (
 						<div className="flex flex-row">
 							<p className="text-red-600 mt-4 ">{error}</p>
 						</div>
 					) : null}
-				</div>
-			</Form>
+				</fieldset>
+			</CsrfForm>
+			<OAuthButtons
+				providers={loaderData.oauthProviders}
+				redirectTo={searchParams.get("redirectTo") ?? ""}
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,536 @@
+/**
+ * Profile route for managing the signed-in user's account.
+ *
+ * This module lets users update their username, change their email address
+ * (confirmed through Supabase's email flow), change their password and
+ * upload an avatar to Supabase Storage.
+ *
+ * @module profile
+ */
+
+import { data, Link, useNavigation, type MetaFunction } from "react-router";
+import { Route } from "./+types/profile";
+import { getAuthCallbackUrl, PASSWORD_MIN_LENGTH, requireUser } from "~/auth";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm } from "~/components/csrf-form";
+import { toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Storage bucket that holds user avatars.
+ */
+const AVATAR_BUCKET = "avatars";
+
+/**
+ * Largest avatar image accepted, in bytes.
+ */
+const AVATAR_MAX_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Maximum length of a username.
+ */
+const USERNAME_MAX_LENGTH = 50;
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Profile - New React Router Supabase App" },
+		{
+			name: "description",
+			content: "Manage your account.",
+		},
+	];
+};
+
+/**
+ * Loader function to fetch the signed-in user's profile.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<{ profile: Object }>} The user's email, username, avatar and any pending email change.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { user, headers } = await requireUser(request);
+	const { username, avatar_url: avatarUrl } = user.user_metadata;
+
+	return data(
+		{
+			profile: {
+				email: user.email ?? "",
+				newEmail: user.new_email ?? null,
+				username: typeof username === "string" ? username : "",
+				avatarUrl: typeof avatarUrl === "string" ? avatarUrl : null,
+			},
+		},
+		{ headers },
+	);
+}
+
+export const loader = withRequestLog("profile", "loader", loaderImpl);
+
+/**
+ * Sections of the profile page, each submitted as its own form.
+ */
+type ProfileIntent = "username" | "email" | "password" | "avatar";
+
+/**
+ * Result returned by the profile action.
+ */
+type ProfileActionResult = {
+	intent: ProfileIntent | null;
+	success: string | null;
+	error: string | null;
+	fieldErrors?: Partial<
+		Record<
+			"username" | "email" | "password" | "confirmPassword" | "avatar",
+			string
+		>
+	>;
+};
+
+/**
+ * Handles the action for updating the profile.
+ *
+ * The `intent` form field selects which section was submitted. Email
+ * changes only take effect once the user follows the confirmation link,
+ * which lands on `/auth/callback`. Avatars are uploaded to the `avatars`
+ * bucket under the user's id and the public URL is saved in user metadata.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<ProfileActionResult>} The submitted section with a success or error message.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const { user, client, headers } = await requireUser(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const intent = formData.get("intent");
+
+	if (intent === "username") {
+		const username = formData.get("username");
+		const value = typeof username === "string" ? username.trim() : "";
+
+		if (!value || value.length > USERNAME_MAX_LENGTH) {
+			return data<ProfileActionResult>(
+				{
+					intent,
+					success: null,
+					error: null,
+					fieldErrors: {
+						username: value
+							? `Username must be at most ${USERNAME_MAX_LENGTH} characters`
+							: "Username is required",
+					},
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		const { error } = await client.auth.updateUser({
+			data: { username: value },
+		});
+
+		if (error) {
+			const { status, message } = toAppError(error);
+			return data<ProfileActionResult>(
+				{ intent, success: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		return data<ProfileActionResult>(
+			{ intent, success: "Username updated.", error: null },
+			{ headers },
+		);
+	}
+
+	if (intent === "email") {
+		const email = formData.get("email");
+		const value = typeof email === "string" ? email.trim() : "";
+
+		if (!value || value === user.email) {
+			return data<ProfileActionResult>(
+				{
+					intent,
+					success: null,
+					error: null,
+					fieldErrors: {
+						email: value
+							? "Enter a different email address"
+							: "Email is required",
+					},
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		const { error } = await client.auth.updateUser(
+			{ email: value },
+			{ emailRedirectTo: getAuthCallbackUrl(request, "/profile") },
+		);
+
+		if (error) {
+			const { status, message } = toAppError(error);
+			return data<ProfileActionResult>(
+				{ intent, success: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		return data<ProfileActionResult>(
+			{
+				intent,
+				success: `Check ${value} for a link to confirm the change.`,
+				error: null,
+			},
+			{ headers },
+		);
+	}
+
+	if (intent === "password") {
+		const password = formData.get("password");
+		const confirmPassword = formData.get("confirmPassword");
+
+		const fieldErrors: ProfileActionResult["fieldErrors"] = {};
+		if (typeof password !== "string" || password.length < PASSWORD_MIN_LENGTH) {
+			fieldErrors.password = `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+		}
+		if (password !== confirmPassword) {
+			fieldErrors.confirmPassword = "Passwords do not match";
+		}
+
+		if (Object.keys(fieldErrors).length > 0 || typeof password !== "string") {
+			return data<ProfileActionResult>(
+				{ intent, success: null, error: null, fieldErrors },
+				{ status: 400, headers },
+			);
+		}
+
+		const { error } = await client.auth.updateUser({ password });
+
+		if (error) {
+			const { status, message } = toAppError(error);
+			return data<ProfileActionResult>(
+				{ intent, success: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		return data<ProfileActionResult>(
+			{ intent, success: "Password changed.", error: null },
+			{ headers },
+		);
+	}
+
+	if (intent === "avatar") {
+		const avatar = formData.get("avatar");
+
+		if (!(avatar instanceof File) || avatar.size === 0) {
+			return data<ProfileActionResult>(
+				{
+					intent,
+					success: null,
+					error: null,
+					fieldErrors: { avatar: "Choose an image to upload" },
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		if (!avatar.type.startsWith("image/") || avatar.size > AVATAR_MAX_SIZE) {
+			return data<ProfileActionResult>(
+				{
+					intent,
+					success: null,
+					error: null,
+					fieldErrors: { avatar: "Avatar must be an image of at most 2 MB" },
+				},
+				{ status: 400, headers },
+			);
+		}
+
+		const extension = avatar.type.split("/")[1]?.replace(/[^a-z0-9]/gi, "");
+		const path = `${user.id}/avatar.${extension || "img"}`;
+		const { error: uploadError } = await client.storage
+			.from(AVATAR_BUCKET)
+			.upload(path, avatar, { contentType: avatar.type, upsert: true });
+
+		if (uploadError) {
+			const { status, message } = toAppError(uploadError);
+			return data<ProfileActionResult>(
+				{ intent, success: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		const { data: publicUrl } = client.storage
+			.from(AVATAR_BUCKET)
+			.getPublicUrl(path);
+		// Bust caches, since the path is reused for every upload
+		const { error } = await client.auth.updateUser({
+			data: { avatar_url: `${publicUrl.publicUrl}?v=${Date.now()}` },
+		});
+
+		if (error) {
+			const { status, message } = toAppError(error);
+			return data<ProfileActionResult>(
+				{ intent, success: null, error: message },
+				{ status, headers },
+			);
+		}
+
+		return data<ProfileActionResult>(
+			{ intent, success: "Avatar updated.", error: null },
+			{ headers },
+		);
+	}
+
+	return data<ProfileActionResult>(
+		{ intent: null, success: null, error: "Invalid action type" },
+		{ status: 400, headers },
+	);
+}
+
+export const action = withRequestLog("profile", "action", actionImpl);
+
+/**
+ * Profile route component.
+ * This component shows the signed-in user's account details with a form
+ * for each section that can be changed.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - Data returned from the loader function, including the profile.
+ * @param {Object} props.actionData - Data returned from the action function, including any messages.
+ * @returns {JSX.Element} The rendered profile component.
+ */
+export default function Profile({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const { profile } = loaderData;
+	const navigation = useNavigation();
+	const submittingIntent =
+		navigation.state === "submitting"
+			? navigation.formData?.get("intent")
+			: null;
+
+	/**
+	 * Returns the messages for a section if it was the one last submitted.
+	 *
+	 * @param {ProfileIntent} intent - The section.
+	 * @returns {ProfileActionResult | null} The action result for the section.
+	 */
+	const resultFor = (intent: ProfileIntent) =>
+		actionData?.intent === intent ? actionData : null;
+
+	/**
+	 * Renders the success or error message for a section.
+	 *
+	 * @param {ProfileIntent} intent - The section.
+	 * @returns {JSX.Element | null} The rendered message.
+	 */
+	const renderStatus = (intent: ProfileIntent) => {
+		const result = resultFor(intent);
+		if (result?.error) {
+			return <p className="text-red-600 text-sm">{result.error}</p>;
+		}
+		if (result?.success) {
+			return <p className="text-green-600 text-sm">{result.success}</p>;
+		}
+		return null;
+	};
+
+	/**
+	 * Renders a field error for a section.
+	 *
+	 * @param {ProfileIntent} intent - The section.
+	 * @param {string} field - The field name.
+	 * @returns {JSX.Element | null} The rendered error.
+	 */
+	const renderFieldError = (
+		intent: ProfileIntent,
+		field: keyof NonNullable<ProfileActionResult["fieldErrors"]>,
+	) => {
+		const message = resultFor(intent)?.fieldErrors?.[field];
+		return message ? (
+			<p id={`${field}-error`} className="text-red-600 text-sm ml-24">
+				{message}
+			</p>
+		) : null;
+	};
+
+	return (
+		<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+			<h1 className="text-2xl">Profile</h1>
+			<div className="text-sm">
+				<Link to="/home" className="text-blue-500">
+					Go Home
+				</Link>
+			</div>
+
+			<section className="mt-6">
+				<h2 className="text-lg">Avatar</h2>
+				<div className="flex flex-row items-center gap-4 mt-2">
+					{profile.avatarUrl ? (
+						<img
+							src={profile.avatarUrl}
+							alt=""
+							className="w-16 h-16 rounded-full object-cover"
+						/>
+					) : (
+						<div className="w-16 h-16 rounded-full bg-gray-300" />
+					)}
+					<CsrfForm
+						method="post"
+						encType="multipart/form-data"
+						className="flex-1"
+					>
+						<input type="hidden" name="intent" value="avatar" />
+						<div className="flex flex-row gap-2">
+							<input
+								type="file"
+								name="avatar"
+								accept="image/*"
+								aria-label="Avatar image"
+								className="flex-1 text-sm"
+							/>
+							<button
+								type="submit"
+								disabled={submittingIntent === "avatar"}
+								className="border rounded px-2.5 py-1 bg-blue-500 text-white disabled:opacity-50"
+							>
+								{submittingIntent === "avatar" ? "Uploading..." : "Upload"}
+							</button>
+						</div>
+					</CsrfForm>
+				</div>
+				{resultFor("avatar")?.fieldErrors?.avatar && (
+					<p className="text-red-600 text-sm">
+						{resultFor("avatar")?.fieldErrors?.avatar}
+					</p>
+				)}
+				{renderStatus("avatar")}
+			</section>
+
+			<hr className="my-4" />
+
+			<section>
+				<h2 className="text-lg">Username</h2>
+				<CsrfForm method="post" className="flex flex-col gap-2 mt-2">
+					<input type="hidden" name="intent" value="username" />
+					<div className="flex flex-row">
+						<label htmlFor="username" className="min-w-24 ">
+							Username:
+						</label>
+						<input
+							id="username"
+							className="flex-1"
+							type="text"
+							name="username"
+							defaultValue={profile.username}
+							maxLength={USERNAME_MAX_LENGTH}
+						/>
+					</div>
+					{renderFieldError("username", "username")}
+					<div className="flex flex-row-reverse">
+						<button
+							type="submit"
+							disabled={submittingIntent === "username"}
+							className="border rounded px-2.5 py-1 w-32 bg-blue-500 text-white disabled:opacity-50"
+						>
+							{submittingIntent === "username" ? "Saving..." : "Save"}
+						</button>
+					</div>
+					{renderStatus("username")}
+				</CsrfForm>
+			</section>
+
+			<hr className="my-4" />
+
+			<section>
+				<h2 className="text-lg">Email</h2>
+				{profile.newEmail && (
+					<p className="text-sm text-gray-500">
+						Waiting for confirmation of {profile.newEmail}.
+					</p>
+				)}
+				<CsrfForm method="post" className="flex flex-col gap-2 mt-2">
+					<input type="hidden" name="intent" value="email" />
+					<div className="flex flex-row">
+						<label htmlFor="email" className="min-w-24 ">
+							Email:
+						</label>
+						<input
+							id="email"
+							className="flex-1"
+							type="email"
+							name="email"
+							defaultValue={profile.email}
+						/>
+					</div>
+					{renderFieldError("email", "email")}
+					<div className="flex flex-row-reverse">
+						<button
+							type="submit"
+							disabled={submittingIntent === "email"}
+							className="border rounded px-2.5 py-1 w-32 bg-blue-500 text-white disabled:opacity-50"
+						>
+							{submittingIntent === "email" ? "Saving..." : "Change Email"}
+						</button>
+					</div>
+					{renderStatus("email")}
+				</CsrfForm>
+			</section>
+
+			<hr className="my-4" />
+
+			<section>
+				<h2 className="text-lg">Password</h2>
+				<CsrfForm method="post" className="flex flex-col gap-2 mt-2">
+					<input type="hidden" name="intent" value="password" />
+					<div className="flex flex-row">
+						<label htmlFor="password" className="min-w-24 ">
+							Password:
+						</label>
+						<input
+							id="password"
+							className="flex-1"
+							type="password"
+							name="password"
+							placeholder="Enter a new password"
+							minLength={PASSWORD_MIN_LENGTH}
+						/>
+					</div>
+					{renderFieldError("password", "password")}
+					<div className="flex flex-row">
+						<label htmlFor="confirmPassword" className="min-w-24 ">
+							Confirm:
+						</label>
+						<input
+							id="confirmPassword"
+							className="flex-1"
+							type="password"
+							name="confirmPassword"
+							placeholder="Repeat the new password"
+						/>
+					</div>
+					{renderFieldError("password", "confirmPassword")}
+					<div className="flex flex-row-reverse">
+						<button
+							type="submit"
+							disabled={submittingIntent === "password"}
+							className="border rounded px-2.5 py-1 w-40 bg-blue-500 text-white disabled:opacity-50"
+						>
+							{submittingIntent === "password"
+								? "Saving..."
+								: "Change Password"}
+						</button>
+					</div>
+					{renderStatus("password")}
+				</CsrfForm>
+			</section>
+		</div>
+	);
+}
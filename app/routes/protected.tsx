@@ -0,0 +1,33 @@
+import type { Route } from "./+types/protected";
+import { data, Outlet } from "react-router";
+import { requireUser } from "~/auth";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Loader function for the protected layout.
+ *
+ * Every route nested under this layout requires a signed-in user. Anonymous
+ * visitors are redirected to the login page with a `redirectTo` parameter.
+ *
+ * Child loaders run in parallel with this one, and actions never run it at
+ * all, so private routes must still call `requireUser` themselves.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<{ user: Object }>} An object containing the signed-in user.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const { user, headers } = await requireUser(request);
+	return data({ user }, { headers });
+}
+
+export const loader = withRequestLog("protected", "loader", loaderImpl);
+
+/**
+ * Protected layout component.
+ * Renders the matched private route.
+ *
+ * @returns {JSX.Element} The rendered child route.
+ */
+export default function Protected() {
+	return <Outlet />;
+}
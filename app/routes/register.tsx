@@ -7,9 +7,32 @@
  * @module register
  */
 
-import { Form, Link, redirect, type MetaFunction } from "react-router";
-import { Route } from "./+types/login";
+import {
+	data,
+	Link,
+	redirect,
+	useSearchParams,
+	type MetaFunction,
+} from "react-router";
+import { Route } from "./+types/register";
 import { getServerClient } from "~/server";
+import { getAuthCallbackUrl, getOAuthProviders, safeRedirect } from "~/auth";
+import { OAuthButtons } from "~/components/oauth-buttons";
+import { requireCsrf } from "~/csrf";
+import {
+	consumeRateLimit,
+	getClientCheck,
+	getRateLimitMessage,
+	REGISTER_EMAIL_LIMIT,
+	REGISTER_GLOBAL_LIMIT,
+	REGISTER_IP_LIMIT,
+	rateLimited,
+	rateLimitHeaders,
+} from "~/rate-limit";
+import { CsrfForm } from "~/components/csrf-form";
+import { toAppError } from "~/errors";
+import { logger } from "~/logger";
+import { withRequestLog } from "~/request-log.server";
 
 /**
  * Meta function for setting the page metadata.
@@ -26,80 +49,186 @@ export const meta: MetaFunction = () => {
 	];
 };
 
+/**
+ * Result returned by the register action: an error message, or the email
+ * a confirmation link was sent to.
+ */
+type RegisterActionResult =
+	| { success: false; error: string }
+	| { success: true; email: string };
+
 /**
  * Loader function to check if the user is already logged in.
  *
  * @param {Route.LoaderArgs} args - The loader arguments containing the request.
- * @returns {Promise<{ user: null, error: null }>} An object indicating no user is logged in.
+ * @returns {Promise<{ user: null, error: null, oauthProviders: OAuthProvider[] }>} An object indicating no user is logged in, with the enabled OAuth providers.
  */
-export async function loader({ request }: Route.LoaderArgs) {
+async function loaderImpl({ request }: Route.LoaderArgs) {
 	// Check if the user is already logged in
 	const sbServerClient = getServerClient(request);
 	const userResponse = await sbServerClient.client.auth.getUser();
 	if (userResponse?.data?.user) {
-		throw redirect("/home", { headers: sbServerClient.headers });
+		const url = new URL(request.url);
+		throw redirect(safeRedirect(url.searchParams.get("redirectTo")), {
+			headers: sbServerClient.headers,
+		});
 	}
 
-	return data({ user: null, error: null }, { headers: sbServerClient.headers });
+	return data(
+		{ user: null, error: null, oauthProviders: getOAuthProviders() },
+		{ headers: sbServerClient.headers },
+	);
 }
 
+export const loader = withRequestLog("register", "loader", loaderImpl);
+
 /**
  * Handles the action for user registration.
  *
+ * When sign-up returns a session the user is redirected to the `redirectTo`
+ * form field (or home). When email confirmation is required, the
+ * confirmation link lands on `/auth/callback` and the page asks the user to
+ * check their inbox.
+ *
+ * Registrations are rate limited per IP address and per email; once a limit
+ * is reached the action responds with a 429 and a `Retry-After` header.
+ *
  * @param {Route.ActionArgs} args - The action arguments containing the request.
- * @returns {Promise<{ error?: string, user?: any }>} An object containing an error message if validation fails.
+ * @returns {Promise<RegisterActionResult>} An error message if registration fails, or the email awaiting confirmation.
  */
-export async function action({ request }: Route.ActionArgs) {
+async function actionImpl({ request }: Route.ActionArgs) {
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+
 	try {
-		const formData = await request.formData();
 		const dataFields = Object.fromEntries(formData.entries());
+		const email =
+			typeof dataFields.email === "string" ? dataFields.email.trim() : "";
+		const password =
+			typeof dataFields.password === "string" ? dataFields.password : "";
+		const username =
+			typeof dataFields.username === "string" ? dataFields.username : "";
 
 		const sbServerClient = getServerClient(request);
-		const { data, error } = await sbServerClient.client.auth.signUp({
-			email: dataFields.email as string,
-			password: dataFields.password as string,
+
+		if (!email) {
+			return data<RegisterActionResult>(
+				{ success: false, error: "Email is required" },
+				{ status: 400, headers: sbServerClient.headers },
+			);
+		}
+
+		const retryAfter = await consumeRateLimit([
+			getClientCheck(request, REGISTER_IP_LIMIT, REGISTER_GLOBAL_LIMIT),
+			[REGISTER_EMAIL_LIMIT, email],
+		]);
+		if (retryAfter) {
+			return rateLimited<RegisterActionResult>(
+				{ success: false, error: getRateLimitMessage(retryAfter) },
+				retryAfter,
+				sbServerClient.headers,
+			);
+		}
+
+		const { data: signUpData, error } = await sbServerClient.client.auth.signUp({
+			email,
+			password,
 			options: {
 				data: {
-					username: dataFields.username as string,
+					username,
 				},
+				emailRedirectTo: getAuthCallbackUrl(
+					request,
+					safeRedirect(dataFields.redirectTo),
+				),
 			},
 		});
 
 		if (error) {
-			return data(
-				{ error: error.message },
-				{ headers: sbServerClient.headers },
+			const { status, message } = toAppError(error);
+			return data<RegisterActionResult>(
+				{ success: false, error: message },
+				{ status, headers: sbServerClient.headers },
 			);
 		}
 
-		return data({ user: data.user }, { headers: sbServerClient.headers });
+		if (signUpData.session) {
+			throw redirect(safeRedirect(dataFields.redirectTo), {
+				headers: sbServerClient.headers,
+			});
+		}
+
+		// Email confirmation is required before the user can sign in
+		return data<RegisterActionResult>(
+			{ success: true, email },
+			{ headers: sbServerClient.headers },
+		);
 	} catch (error) {
-		if (error instanceof Error) {
-			return { error: error.message };
+		if (error instanceof Response) {
+			throw error;
 		}
 
-		return { error: "An unknown error occurred" };
+		logger.error("Error registering", { error });
+		const { status, message } = toAppError(error);
+		return data<RegisterActionResult>(
+			{ success: false, error: message },
+			{ status },
+		);
 	}
 }
 
+export const action = withRequestLog("register", "action", actionImpl);
+
+/**
+ * Passes the `Retry-After` header of rate limited attempts on to the
+ * response.
+ */
+export const headers = rateLimitHeaders;
+
 /**
  * Register route component.
  * This component allows new users to create an account.
  * It includes a registration form and handles user input validation.
  *
  * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - Data returned from the loader function, including the enabled OAuth providers.
  * @param {Object} props.actionData - Data returned from the action function, including any error messages.
  * @returns {JSX.Element} The rendered registration form component.
  */
-export default function Register({ actionData }: Route.ComponentProps) {
-	const error = actionData
-		? (actionData as { error: string | null })?.error
-		: null;
+export default function Register({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const error = actionData?.success === false ? actionData.error : null;
+	const [searchParams] = useSearchParams();
+	const pendingEmail = actionData?.success ? actionData.email : null;
+
+	if (pendingEmail) {
+		return (
+			<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+				<h1 className="text-2xl">Check your inbox</h1>
+				<p className="mt-6">
+					We sent a confirmation link to {pendingEmail}. Open it to activate
+					your account and sign in.
+				</p>
+				<div className="mt-4 text-sm">
+					<Link to="/login" className="text-blue-500">
+						Back to login
+					</Link>
+				</div>
+			</div>
+		);
+	}
 
 	return (
 		<div className="p-8 min-w-3/4 w-[500px] mx-auto">
 			<h1 className="text-2xl">React Router v7 Supabase Auth: Register</h1>
-			<Form method="post" className="mt-6 ">
+			<CsrfForm method="post" className="mt-6 ">
+				<input
+					type="hidden"
+					name="redirectTo"
+					value={searchParams.get("redirectTo") ?? ""}
+				/>
 				<div className="flex flex-col gap-2">
 					<div className="flex flex-row">
 						<label htmlFor="username" className="min-w-24 ">
@@ -144,7 +273,7 @@ export default function Register({ actionData }: Route.ComponentProps) {
 						>
 							Register User
 						</button>
-						<Link to="/login">
+						<Link to={{ pathname: "/login", search: searchParams.toString() }}>
 							<button
 								type="button"
 								className="border rounded px-2.5 py-1 w-32 border-blue-500 text-blue-500"
@@ -159,7 +288,11 @@ export default function Register({ actionData }: Route.ComponentProps) {
 						</div>
 					) : null}
 				</div>
-			</Form>
+			</CsrfForm>
+			<OAuthButtons
+				providers={loaderData.oauthProviders}
+				redirectTo={searchParams.get("redirectTo") ?? ""}
+			/>
 		</div>
 	);
 }
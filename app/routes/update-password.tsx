@@ -0,0 +1,282 @@
+/**
+ * Update password route for account recovery.
+ *
+ * Users land here from the password reset email. The loader exchanges the
+ * recovery code (or token hash) for a session, and the form sets a new
+ * password for the signed-in user.
+ *
+ * @module update-password
+ */
+
+import {
+	data,
+	Link,
+	redirect,
+	useNavigation,
+	type MetaFunction,
+} from "react-router";
+import { AuthError } from "@supabase/supabase-js";
+import { Route } from "./+types/update-password";
+import { getServerClient } from "~/server";
+import { isEmailOtpType, PASSWORD_MIN_LENGTH } from "~/auth";
+import { requireCsrf } from "~/csrf";
+import { CsrfForm } from "~/components/csrf-form";
+import { errorData, toAppError } from "~/errors";
+import { withRequestLog } from "~/request-log.server";
+
+/**
+ * Meta function for setting the page metadata.
+ *
+ * @returns {Array<{ title: string, name?: string, content?: string }>} Metadata for the page.
+ */
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "Update Password - New React Router Supabase App" },
+		{
+			name: "description",
+			content: "Choose a new password for your account.",
+		},
+	];
+};
+
+/**
+ * Loader function to start the recovery session.
+ *
+ * When the recovery link carries a `code` (PKCE) or `token_hash`, it is
+ * exchanged for a session and the user is redirected back here without the
+ * one-time parameters. Otherwise the existing session is checked. If
+ * Supabase can't be reached the error is thrown to the error boundary
+ * rather than blaming the link.
+ *
+ * @param {Route.LoaderArgs} args - The loader arguments containing the request.
+ * @returns {Promise<{ error: string | null }>} An error message if there is no recovery session.
+ */
+async function loaderImpl({ request }: Route.LoaderArgs) {
+	const sbServerClient = getServerClient(request);
+	const url = new URL(request.url);
+	const code = url.searchParams.get("code");
+	const tokenHash = url.searchParams.get("token_hash");
+	const type = url.searchParams.get("type") ?? "recovery";
+
+	if (code || tokenHash) {
+		const { error } = code
+			? await sbServerClient.client.auth.exchangeCodeForSession(code)
+			: tokenHash && isEmailOtpType(type)
+			? await sbServerClient.client.auth.verifyOtp({
+					type,
+					token_hash: tokenHash,
+			  })
+			: { error: new AuthError("Invalid password reset link") };
+
+		if (!error) {
+			throw redirect(url.pathname, { headers: sbServerClient.headers });
+		}
+
+		// The link is only to blame if Supabase could be reached
+		if (toAppError(error).kind === "unavailable") {
+			throw errorData(error, sbServerClient.headers);
+		}
+
+		return data(
+			{ error: "Your password reset link is invalid or has expired." },
+			{ headers: sbServerClient.headers },
+		);
+	}
+
+	const userResponse = await sbServerClient.client.auth.getUser();
+	if (
+		userResponse.error &&
+		toAppError(userResponse.error).kind === "unavailable"
+	) {
+		throw errorData(userResponse.error, sbServerClient.headers);
+	}
+
+	if (!userResponse.data.user) {
+		return data(
+			{ error: "Your password reset link is invalid or has expired." },
+			{ headers: sbServerClient.headers },
+		);
+	}
+
+	return data({ error: null }, { headers: sbServerClient.headers });
+}
+
+export const loader = withRequestLog("update-password", "loader", loaderImpl);
+
+/**
+ * Result returned by the update password action.
+ */
+type UpdatePasswordActionResult = {
+	updated: boolean;
+	error: string | null;
+	fieldErrors?: { password?: string; confirmPassword?: string };
+};
+
+/**
+ * Handles the action for setting a new password.
+ *
+ * @param {Route.ActionArgs} args - The action arguments containing the request.
+ * @returns {Promise<UpdatePasswordActionResult>} Whether the password was updated, with any error message.
+ */
+async function actionImpl({ request }: Route.ActionArgs) {
+	const sbServerClient = getServerClient(request);
+	const formData = await request.formData();
+	await requireCsrf(request, formData);
+	const password = formData.get("password");
+	const confirmPassword = formData.get("confirmPassword");
+
+	const fieldErrors: UpdatePasswordActionResult["fieldErrors"] = {};
+	if (typeof password !== "string" || password.length < PASSWORD_MIN_LENGTH) {
+		fieldErrors.password = `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+	}
+	if (password !== confirmPassword) {
+		fieldErrors.confirmPassword = "Passwords do not match";
+	}
+
+	if (Object.keys(fieldErrors).length > 0 || typeof password !== "string") {
+		return data<UpdatePasswordActionResult>(
+			{ updated: false, error: null, fieldErrors },
+			{ status: 400, headers: sbServerClient.headers },
+		);
+	}
+
+	const { error } = await sbServerClient.client.auth.updateUser({ password });
+
+	if (error) {
+		const { status, message } = toAppError(error);
+		return data<UpdatePasswordActionResult>(
+			{ updated: false, error: message },
+			{ status, headers: sbServerClient.headers },
+		);
+	}
+
+	return data<UpdatePasswordActionResult>(
+		{ updated: true, error: null },
+		{ headers: sbServerClient.headers },
+	);
+}
+
+export const action = withRequestLog("update-password", "action", actionImpl);
+
+/**
+ * Update password route component.
+ * This component lets a user with a recovery session choose a new password
+ * and confirms once it has been changed.
+ *
+ * @param {Object} props - The component props.
+ * @param {Object} props.loaderData - Data returned from the loader function, including any session error.
+ * @param {Object} props.actionData - Data returned from the action function, including any error messages.
+ * @returns {JSX.Element} The rendered update password component.
+ */
+export default function UpdatePassword({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const error = actionData?.error;
+	const fieldErrors = actionData?.fieldErrors;
+	const navigation = useNavigation();
+	const isSubmitting = navigation.state === "submitting";
+
+	if (actionData?.updated) {
+		return (
+			<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+				<h1 className="text-2xl">Password updated</h1>
+				<p className="mt-6">Your password has been changed.</p>
+				<div className="mt-4 text-sm">
+					<Link to="/home" className="text-blue-500">
+						Go Home
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	if (loaderData.error) {
+		return (
+			<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+				<h1 className="text-2xl">
+					React Router v7 Supabase Auth: Update Password
+				</h1>
+				<p className="text-red-600 mt-6">{loaderData.error}</p>
+				<div className="mt-4 text-sm">
+					<Link to="/forgot-password" className="text-blue-500">
+						Request a new link
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-8 min-w-3/4 w-[500px] mx-auto">
+			<h1 className="text-2xl">
+				React Router v7 Supabase Auth: Update Password
+			</h1>
+			<CsrfForm method="post" className="mt-6 ">
+				<fieldset disabled={isSubmitting} className="flex flex-col gap-2">
+					<div className="flex flex-row">
+						<label htmlFor="password" className="min-w-24 ">
+							Password:
+						</label>
+						<input
+							id="password"
+							className="flex-1"
+							type="password"
+							name="password"
+							placeholder="Enter a new password"
+							minLength={PASSWORD_MIN_LENGTH}
+							aria-invalid={fieldErrors?.password ? true : undefined}
+							aria-describedby={
+								fieldErrors?.password ? "password-error" : undefined
+							}
+						/>
+					</div>
+					{fieldErrors?.password && (
+						<p id="password-error" className="text-red-600 text-sm ml-24">
+							{fieldErrors.password}
+						</p>
+					)}
+					<div className="flex flex-row">
+						<label htmlFor="confirmPassword" className="min-w-24 ">
+							Confirm:
+						</label>
+						<input
+							id="confirmPassword"
+							className="flex-1"
+							type="password"
+							name="confirmPassword"
+							placeholder="Repeat the new password"
+							aria-invalid={fieldErrors?.confirmPassword ? true : undefined}
+							aria-describedby={
+								fieldErrors?.confirmPassword
+									? "confirm-password-error"
+									: undefined
+							}
+						/>
+					</div>
+					{fieldErrors?.confirmPassword && (
+						<p
+							id="confirm-password-error"
+							className="text-red-600 text-sm ml-24"
+						>
+							{fieldErrors.confirmPassword}
+						</p>
+					)}
+					<div className="flex flex-row-reverse mt-4 gap-4">
+						<button
+							type="submit"
+							className="border rounded px-2.5 py-1 w-40 bg-blue-500 text-white disabled:opacity-50"
+						>
+							{isSubmitting ? "Saving..." : "Update Password"}
+						</button>
+					</div>
+					{error ? (
+						<div className="flex flex-row">
+							<p className="text-red-600 mt-4 ">{error}</p>
+						</div>
+					) : null}
+				</fieldset>
+			</CsrfForm>
+		</div>
+	);
+}
@@ -1,27 +1,45 @@
 import { parseCookieHeader, serializeCookieHeader } from "@supabase/ssr";
 import { createServerClient } from "@supabase/ssr";
+import { createClient } from "@supabase/supabase-js";
+import { getConfig } from "~/config";
+import type { Database } from "~/database";
 
 export const getServerClient = (request: Request) => {
 	const headers = new Headers();
-	const supabase = createServerClient(
-		process.env.SUPABASE_URL!,
-		process.env.SUPABASE_ANON_KEY!,
-		{
-			cookies: {
-				getAll() {
-					return parseCookieHeader(request.headers.get("Cookie") ?? "") ?? {};
-				},
-				setAll(cookiesToSet) {
-					cookiesToSet.forEach(({ name, value, options }) =>
-						headers.append(
-							"Set-Cookie",
-							serializeCookieHeader(name, value, options),
-						),
-					);
-				},
+	const { supabaseUrl, supabaseAnonKey } = getConfig();
+	const supabase = createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+		cookies: {
+			getAll() {
+				return parseCookieHeader(request.headers.get("Cookie") ?? "") ?? {};
+			},
+			setAll(cookiesToSet) {
+				cookiesToSet.forEach(({ name, value, options }) =>
+					headers.append(
+						"Set-Cookie",
+						serializeCookieHeader(name, value, options),
+					),
+				);
 			},
 		},
-	);
+	});
 
 	return { client: supabase, headers: headers };
 };
+
+/**
+ * Creates a Supabase client that acts as the user owning an access token,
+ * for API requests that authenticate with an `Authorization: Bearer` header
+ * instead of the session cookies.
+ *
+ * @param {string} accessToken - The user's Supabase access token.
+ * @returns {{ client: TypedSupabaseClient, headers: Headers }} The client and (empty) response headers.
+ */
+export const getBearerClient = (accessToken: string) => {
+	const { supabaseUrl, supabaseAnonKey } = getConfig();
+	const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+		global: { headers: { Authorization: `Bearer ${accessToken}` } },
+		auth: { persistSession: false, autoRefreshToken: false },
+	});
+
+	return { client: supabase, headers: new Headers() };
+};
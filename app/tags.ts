@@ -0,0 +1,195 @@
+import type { TypedSupabaseClient } from "~/database";
+import { toAppError } from "~/errors";
+
+/**
+ * Tags for items in the CRUD module.
+ *
+ * Each user has their own set of tags in the `tags` table, linked to items
+ * through the `item_tags` table. Tag names are stored lowercase, so "Work"
+ * and "work" are the same tag.
+ *
+ * @module tags
+ */
+
+/**
+ * Maximum length of a tag name.
+ */
+export const TAG_NAME_MAX_LENGTH = 30;
+
+/**
+ * Most tags an item can have.
+ */
+export const ITEM_MAX_TAGS = 10;
+
+/**
+ * Normalizes a tag name for storage and comparison.
+ *
+ * @param {string} name - The tag name as typed.
+ * @returns {string} The trimmed, lowercase name with inner whitespace collapsed.
+ */
+export const normalizeTagName = (name: string) =>
+	name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Parses a comma-separated list of tags, dropping blanks and duplicates.
+ *
+ * @param {FormDataEntryValue | null} value - The raw form value.
+ * @returns {string[]} The normalized tag names, in the order typed.
+ */
+export const parseTags = (value: FormDataEntryValue | null) => {
+	if (typeof value !== "string") {
+		return [];
+	}
+
+	return [...new Set(value.split(",").map(normalizeTagName))].filter(Boolean);
+};
+
+/**
+ * Validates the tags submitted for an item.
+ *
+ * @param {string[]} tags - The normalized tag names.
+ * @returns {string | null} The error message, or null if the tags are valid.
+ */
+export const validateTags = (tags: string[]) => {
+	if (tags.length > ITEM_MAX_TAGS) {
+		return `Items can have at most ${ITEM_MAX_TAGS} tags`;
+	}
+
+	const tooLong = tags.find((tag) => tag.length > TAG_NAME_MAX_LENGTH);
+	if (tooLong) {
+		return `Tags must be at most ${TAG_NAME_MAX_LENGTH} characters`;
+	}
+
+	return null;
+};
+
+/**
+ * Lists the names of all of a user's tags, for autocomplete.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string} userId - The id of the user.
+ * @returns {Promise<string[]>} The tag names, alphabetically.
+ * @throws {PostgrestError} If the tags can't be read.
+ */
+export const listTags = async (client: TypedSupabaseClient, userId: string) => {
+	const { data: tags, error } = await client
+		.from("tags")
+		.select("name")
+		.eq("user_id", userId)
+		.order("name");
+
+	if (error) {
+		throw error;
+	}
+
+	return (tags ?? []).map((tag) => tag.name);
+};
+
+/**
+ * Lists the tags of some items.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {number[]} itemIds - The ids of the items.
+ * @returns {Promise<Record<number, string[]>>} The tag names keyed by item id, alphabetically.
+ * @throws {PostgrestError} If the tags can't be read.
+ */
+export const listItemTags = async (
+	client: TypedSupabaseClient,
+	itemIds: number[],
+) => {
+	const byItem: Record<number, string[]> = {};
+	if (itemIds.length === 0) {
+		return byItem;
+	}
+
+	const { data: links, error } = await client
+		.from("item_tags")
+		.select("item_id, tags(name)")
+		.in("item_id", itemIds);
+
+	if (error) {
+		throw error;
+	}
+
+	for (const link of links ?? []) {
+		if (link.tags) {
+			(byItem[link.item_id] ??= []).push(link.tags.name);
+		}
+	}
+	for (const names of Object.values(byItem)) {
+		names.sort();
+	}
+
+	return byItem;
+};
+
+/**
+ * Computed column holding the names of an item's tags, provided by the
+ * `tag_names` database function (see the README).
+ */
+export const ITEM_TAG_NAMES_COLUMN = "tag_names";
+
+/**
+ * Formats tag names as a Postgres array for filtering items on
+ * `ITEM_TAG_NAMES_COLUMN`; `query.contains(ITEM_TAG_NAMES_COLUMN, ...)`
+ * keeps the items that have every tag. Names are quoted so commas, quotes
+ * and braces in them can't break the array.
+ *
+ * @param {string[]} names - The normalized tag names.
+ * @returns {string} The array literal, e.g. `{"work","urgent"}`.
+ */
+export const toTagNamesFilter = (names: string[]) =>
+	`{${names.map((name) => `"${name.replace(/["\\]/g, "\\$&")}"`).join(",")}}`;
+
+/**
+ * Replaces the tags of an item, creating tags that don't exist yet.
+ *
+ * @param {TypedSupabaseClient} client - The authenticated Supabase client.
+ * @param {string} userId - The id of the item's owner.
+ * @param {number} itemId - The id of the item.
+ * @param {string[]} names - The validated tag names.
+ * @returns {Promise<string | null>} The error message, if the tags couldn't be saved.
+ */
+export const setItemTags = async (
+	client: TypedSupabaseClient,
+	userId: string,
+	itemId: number,
+	names: string[],
+) => {
+	let tagIds: number[] = [];
+
+	if (names.length > 0) {
+		const { data: tags, error } = await client
+			.from("tags")
+			.upsert(
+				names.map((name) => ({ user_id: userId, name })),
+				{ onConflict: "user_id,name" },
+			)
+			.select("id");
+
+		if (error) {
+			return toAppError(error).message;
+		}
+		tagIds = (tags ?? []).map((tag) => tag.id);
+	}
+
+	let unlink = client.from("item_tags").delete().eq("item_id", itemId);
+	if (tagIds.length > 0) {
+		unlink = unlink.not("tag_id", "in", `(${tagIds.join(",")})`);
+	}
+	const { error: unlinkError } = await unlink;
+	if (unlinkError) {
+		return toAppError(unlinkError).message;
+	}
+
+	if (tagIds.length === 0) {
+		return null;
+	}
+
+	const { error } = await client.from("item_tags").upsert(
+		tagIds.map((tagId) => ({ item_id: itemId, tag_id: tagId })),
+		{ onConflict: "item_id,tag_id", ignoreDuplicates: true },
+	);
+
+	return error ? toAppError(error).message : null;
+};